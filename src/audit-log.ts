@@ -0,0 +1,257 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync, createReadStream, existsSync, mkdirSync } from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+
+/**
+ * Append-only audit log of mutating calls: document changes (create, update,
+ * delete, submit, cancel, amend, rename, rollback, workflow actions,
+ * assignments, uploads), permission changes and the creation of DocTypes,
+ * scripts, workflows, dashboards, reports and the like.
+ *
+ * Each call is one JSON line in ERPNEXT_AUDIT_LOG (default
+ * `erpnext-audit.jsonl` in the working directory; `off` disables the log)
+ * with the tool that made it, the tool's arguments with secrets redacted,
+ * the calling client and session, the ERPNext user, the upstream HTTP status
+ * and the names of the documents involved.
+ */
+
+// Who is on the other end of an MCP session
+export interface AuditCaller {
+  client: string;
+  session_id?: string;
+  // Connected over HTTP rather than stdio
+  remote?: boolean;
+  // May read every client's audit log entries
+  admin?: boolean;
+}
+
+export interface AuditEntry {
+  time: string;
+  tool: string | null;
+  operation: string;
+  doctype?: string;
+  names: string[];
+  ok: boolean;
+  status: number | string | null;
+  error?: string;
+  site: string;
+  user?: string;
+  client?: string;
+  session_id?: string;
+  arguments?: any;
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  tool?: string;
+  doctype?: string;
+  site?: string;
+  client?: string;
+  user?: string;
+  limit?: number;
+}
+
+interface ToolContext {
+  tool: string;
+  arguments: any;
+  caller?: AuditCaller;
+}
+
+interface OperationContext {
+  status?: number | string;
+  writeStatus?: number | string;
+}
+
+const SECRET_KEY = /pass(word|wd)?$|^pwd$|secret|token|api_?key|authorization|cookie|^sid$|private_?key|signature/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_ITEMS = 20;
+
+const toolContext = new AsyncLocalStorage<ToolContext>();
+const operationContext = new AsyncLocalStorage<OperationContext>();
+let warnedUnwritable = false;
+
+export function getAuditLogPath(): string | null {
+  const configured = (process.env.ERPNEXT_AUDIT_LOG || "").trim();
+  if (["off", "false", "0", "none"].includes(configured.toLowerCase())) {
+    return null;
+  }
+  return path.resolve(configured || "erpnext-audit.jsonl");
+}
+
+// Run a tool call so that any mutation it makes is logged against it
+export function runToolCall<T>(tool: string, args: any, caller: AuditCaller | undefined, action: () => Promise<T>): Promise<T> {
+  return toolContext.run({ tool, arguments: args, caller }, action);
+}
+
+// Note the status of an upstream response, for the audited operation it belongs to
+export function noteUpstreamStatus(method: string | undefined, status: number | string | undefined): void {
+  const context = operationContext.getStore();
+  if (!context || status === undefined) {
+    return;
+  }
+  context.status = status;
+  // Reads made along the way (metadata, lookups) should not mask the write's status
+  if (method && method.toLowerCase() !== "get") {
+    context.writeStatus = status;
+  }
+}
+
+// Copy of tool arguments that is safe and small enough to log
+export function redactArguments(value: any, key: string = ""): any {
+  if (SECRET_KEY.test(key) && value !== undefined && value !== null && value !== "") {
+    return "[redacted]";
+  }
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}... [${value.length} chars]` : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => redactArguments(item));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`... ${value.length - MAX_ARRAY_ITEMS} more`);
+    }
+    return items;
+  }
+  if (value && typeof value === "object") {
+    const copy: Record<string, any> = {};
+    for (const [childKey, child] of Object.entries(value)) {
+      copy[childKey] = redactArguments(child, childKey);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Run a mutating operation and append its audit entry, whether it succeeds or fails.
+ * `outcome` turns the result into the names of the documents involved, and may
+ * report a failure for operations that return errors instead of throwing.
+ */
+export async function audited<T>(
+  details: { site: string; operation: string; doctype?: string; names?: string[]; user: () => Promise<string | undefined> },
+  action: () => Promise<T>,
+  outcome: (result: T) => { names?: string[]; error?: string } = () => ({})
+): Promise<T> {
+  const filePath = getAuditLogPath();
+  if (!filePath) {
+    return action();
+  }
+
+  const context: OperationContext = {};
+  let names = details.names || [];
+  let error: string | undefined;
+  try {
+    const result = await operationContext.run(context, action);
+    const reported = outcome(result);
+    names = reported.names || names;
+    error = reported.error;
+    return result;
+  } catch (thrown: any) {
+    error = thrown?.message || String(thrown);
+    throw thrown;
+  } finally {
+    const tool = toolContext.getStore();
+    let user: string | undefined;
+    try {
+      user = await details.user();
+    } catch {
+      user = undefined;
+    }
+    writeEntry(filePath, {
+      time: new Date().toISOString(),
+      tool: tool?.tool ?? null,
+      operation: details.operation,
+      doctype: details.doctype,
+      names: names.filter(Boolean),
+      ok: error === undefined,
+      status: context.writeStatus ?? context.status ?? null,
+      error: error !== undefined ? error.slice(0, 1000) : undefined,
+      site: details.site,
+      user,
+      client: tool?.caller?.client,
+      session_id: tool?.caller?.session_id,
+      arguments: tool ? redactArguments(tool.arguments) : undefined
+    });
+  }
+}
+
+function writeEntry(filePath: string, entry: AuditEntry): void {
+  try {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    // A single appendFileSync keeps each line whole even with concurrent calls
+    appendFileSync(filePath, JSON.stringify(entry) + "\n", { mode: 0o600 });
+  } catch (error: any) {
+    if (!warnedUnwritable) {
+      warnedUnwritable = true;
+      console.error(`Failed to write audit log ${filePath}: ${error?.message || error}`);
+    }
+  }
+}
+
+// Entries matching the query, newest first
+export async function queryAuditLog(query: AuditQuery): Promise<AuditEntry[]> {
+  const filePath = getAuditLogPath();
+  if (!filePath) {
+    throw new Error("The audit log is turned off (ERPNEXT_AUDIT_LOG=off)");
+  }
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  const since = parseTime(query.since, "since");
+  const until = parseTime(query.until, "until");
+  const limit = Math.max(1, query.limit || 50);
+  const matches: AuditEntry[] = [];
+
+  const lines = createInterface({ input: createReadStream(filePath, "utf-8"), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const time = Date.parse(entry.time);
+    if ((since !== undefined && time < since) || (until !== undefined && time > until)) {
+      continue;
+    }
+    if (query.tool && entry.tool !== query.tool && entry.operation !== query.tool) {
+      continue;
+    }
+    if (query.doctype && entry.doctype !== query.doctype) {
+      continue;
+    }
+    if (query.site && entry.site !== query.site) {
+      continue;
+    }
+    if ((query.client && entry.client !== query.client) || (query.user && entry.user !== query.user)) {
+      continue;
+    }
+    matches.push(entry);
+    // Only the newest `limit` entries are kept
+    if (matches.length > limit) {
+      matches.shift();
+    }
+  }
+
+  return matches.reverse();
+}
+
+// A date ("2024-05-01") or date-time; a bare date as `until` covers the whole day
+function parseTime(value: string | undefined, label: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${label} time "${value}": use a date or ISO date-time, e.g. 2024-05-01 or 2024-05-01T09:00:00Z`);
+  }
+  if (label === "until" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return time + 24 * 60 * 60 * 1000 - 1;
+  }
+  return time;
+}
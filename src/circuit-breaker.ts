@@ -0,0 +1,156 @@
+/**
+ * Circuit breaker, shared by every client of the same ERPNext site.
+ *
+ * After ERPNEXT_BREAKER_THRESHOLD consecutive outage failures (default 5;
+ * 0 turns the breaker off) the circuit opens and requests fail straight away
+ * instead of waiting through retries. After ERPNEXT_BREAKER_COOLDOWN
+ * milliseconds (default 30 seconds) it half-opens: the next request goes
+ * through as a probe, and closes the circuit again if it succeeds.
+ *
+ * Outage failures are connection errors, timeouts and 502/503/504 responses.
+ * A 500 is not counted: Frappe answers 500 for exceptions raised by app code,
+ * which says nothing about whether the site is up.
+ */
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerStats {
+  site: string;
+  state: CircuitState;
+  threshold: number;
+  cooldown_ms: number;
+  consecutive_failures: number;
+  times_opened: number;
+  last_failure: { reason: string; at: string } | null;
+  opened_at: string | null;
+  probe_at: string | null;
+}
+
+const DEFAULT_THRESHOLD = 5;
+const DEFAULT_COOLDOWN = 30 * 1000;
+const OUTAGE_CODES = ["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "EAI_AGAIN", "ETIMEDOUT", "ECONNABORTED", "EHOSTUNREACH", "ENETUNREACH"];
+const OUTAGE_STATUSES = [502, 503, 504];
+
+// Thrown instead of sending a request while the circuit is open
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// Whether a failed request points at the site being down rather than at the request itself
+export function isOutageError(error: any): boolean {
+  if (error?.response) {
+    return OUTAGE_STATUSES.includes(error.response.status);
+  }
+  return OUTAGE_CODES.includes(error?.code);
+}
+
+export class CircuitBreaker {
+  private consecutiveFailures: number = 0;
+  private timesOpened: number = 0;
+  private openedAt: number | null = null;
+  private probeStartedAt: number | null = null;
+  private lastFailure: { reason: string; at: number } | null = null;
+
+  constructor(private site: string, private threshold: number, private cooldown: number) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt >= this.cooldown ? "half_open" : "open";
+  }
+
+  // Let a request through, or throw CircuitOpenError; in half-open state only one probe goes at a time
+  beforeRequest(): void {
+    const state = this.state;
+    if (state === "closed") {
+      return;
+    }
+    // A probe that never reported back (e.g. it failed before being sent) is given up after one cooldown
+    if (state === "half_open" && (this.probeStartedAt === null || Date.now() - this.probeStartedAt >= this.cooldown)) {
+      this.probeStartedAt = Date.now();
+      return;
+    }
+    throw this.openError();
+  }
+
+  recordSuccess(): void {
+    if (this.openedAt !== null) {
+      console.error(`ERPNext at ${this.site} is reachable again; closing the circuit`);
+    }
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeStartedAt = null;
+  }
+
+  recordFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = { reason, at: Date.now() };
+
+    if (this.threshold <= 0) {
+      return;
+    }
+    // A failed probe re-opens the circuit for another cooldown
+    if (this.openedAt !== null || this.consecutiveFailures >= this.threshold) {
+      if (this.openedAt === null) {
+        this.timesOpened++;
+        console.error(`ERPNext at ${this.site} failed ${this.consecutiveFailures} times in a row (${reason}); opening the circuit`);
+      }
+      this.openedAt = Date.now();
+      this.probeStartedAt = null;
+    }
+  }
+
+  openError(): CircuitOpenError {
+    const probeAt = (this.openedAt ?? Date.now()) + this.cooldown;
+    const wait = Math.max(Math.ceil((probeAt - Date.now()) / 1000), 0);
+    return new CircuitOpenError(
+      `ERPNext unavailable: ${this.site} failed ${this.consecutiveFailures} times in a row` +
+      `${this.lastFailure ? ` (last error: ${this.lastFailure.reason})` : ""}. ` +
+      (wait > 0 ? `Requests are paused; the site will be probed again in ${wait}s.` : "A probe request to check whether it has recovered is in progress.")
+    );
+  }
+
+  stats(): CircuitBreakerStats {
+    return {
+      site: this.site,
+      state: this.state,
+      threshold: this.threshold,
+      cooldown_ms: this.cooldown,
+      consecutive_failures: this.consecutiveFailures,
+      times_opened: this.timesOpened,
+      last_failure: this.lastFailure ? { reason: this.lastFailure.reason, at: new Date(this.lastFailure.at).toISOString() } : null,
+      opened_at: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      probe_at: this.openedAt !== null ? new Date(this.openedAt + this.cooldown).toISOString() : null
+    };
+  }
+}
+
+function readSetting(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+// The shared circuit breaker for a site
+export function getCircuitBreaker(site: string): CircuitBreaker {
+  let breaker = breakers.get(site);
+  if (!breaker) {
+    breaker = new CircuitBreaker(
+      site,
+      readSetting(process.env.ERPNEXT_BREAKER_THRESHOLD, DEFAULT_THRESHOLD),
+      readSetting(process.env.ERPNEXT_BREAKER_COOLDOWN, DEFAULT_COOLDOWN)
+    );
+    breakers.set(site, breaker);
+  }
+  return breaker;
+}
+
+// State of every site's circuit breaker, for health checks
+export function listCircuitBreakers(): CircuitBreakerStats[] {
+  return Array.from(breakers.values()).map((breaker) => breaker.stats());
+}
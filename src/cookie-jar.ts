@@ -0,0 +1,77 @@
+/**
+ * Minimal cookie jar for a single ERPNext site.
+ * Frappe's session login hands out `sid` (plus a few UI cookies); this keeps
+ * them between requests so password logins behave like a browser session.
+ */
+export class CookieJar {
+  private cookies: Map<string, { value: string; expiresAt?: number }> = new Map();
+
+  // Store cookies from a response's Set-Cookie header(s)
+  store(setCookie: string | string[] | undefined): void {
+    if (!setCookie) {
+      return;
+    }
+
+    for (const header of Array.isArray(setCookie) ? setCookie : [setCookie]) {
+      const [pair, ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) {
+        continue;
+      }
+
+      const name = pair.slice(0, separator).trim();
+      const value = pair.slice(separator + 1).trim();
+      let expiresAt: number | undefined;
+
+      for (const attribute of attributes) {
+        const [key, ...rest] = attribute.split('=');
+        const attrValue = rest.join('=').trim();
+        switch (key.trim().toLowerCase()) {
+          case 'max-age':
+            expiresAt = Date.now() + Number(attrValue) * 1000;
+            break;
+          case 'expires':
+            if (expiresAt === undefined) {
+              expiresAt = Date.parse(attrValue);
+            }
+            break;
+        }
+      }
+
+      // Frappe clears cookies on logout by setting them empty/expired
+      if (!value || (expiresAt !== undefined && expiresAt <= Date.now())) {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, { value, expiresAt });
+      }
+    }
+  }
+
+  get(name: string): string | undefined {
+    const cookie = this.cookies.get(name);
+    if (!cookie) {
+      return undefined;
+    }
+    if (cookie.expiresAt !== undefined && cookie.expiresAt <= Date.now()) {
+      this.cookies.delete(name);
+      return undefined;
+    }
+    return cookie.value;
+  }
+
+  // Value for the Cookie request header, or undefined when the jar is empty
+  header(): string | undefined {
+    const pairs: string[] = [];
+    for (const name of Array.from(this.cookies.keys())) {
+      const value = this.get(name);
+      if (value !== undefined) {
+        pairs.push(`${name}=${value}`);
+      }
+    }
+    return pairs.length ? pairs.join('; ') : undefined;
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+}
@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Dry-run mode: write requests (anything but GET, apart from read-only POSTs
+ * and logins) are recorded instead of sent, and answered with a made-up
+ * success so the code path carries on. Reads still go to ERPNext, so
+ * validation and lookups behave as they would for real.
+ *
+ * Turned on per tool call with `dry_run: true`, or for every call with
+ * ERPNEXT_DRY_RUN=true (which a call cannot turn off).
+ */
+
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  body?: any;
+}
+
+interface DryRunPlan {
+  requests: PlannedRequest[];
+  created: number;
+}
+
+const planContext = new AsyncLocalStorage<DryRunPlan>();
+
+export function isDryRunDefault(): boolean {
+  return String(process.env.ERPNEXT_DRY_RUN || "").toLowerCase() === "true";
+}
+
+export function isDryRun(): boolean {
+  return planContext.getStore() !== undefined || isDryRunDefault();
+}
+
+// Run an action in dry-run mode, returning its result and the write requests it would have sent
+export async function runDryRun<T>(action: () => Promise<T>): Promise<{ result: T; requests: PlannedRequest[] }> {
+  const plan: DryRunPlan = { requests: [], created: 0 };
+  const result = await planContext.run(plan, action);
+  return { result, requests: plan.requests };
+}
+
+/**
+ * Record a write request and make up the response ERPNext would likely give:
+ * the saved document for /api/resource writes, an empty message for method calls.
+ * New documents get placeholder names in Frappe's own style (new-sales-invoice-1).
+ */
+export function planRequest(method: string, url: string, body: any): any {
+  const plan = planContext.getStore();
+  const request: PlannedRequest = { method: method.toUpperCase(), url, body: describeBody(body) };
+  if (plan) {
+    plan.requests.push(request);
+  } else {
+    // ERPNEXT_DRY_RUN outside a tool call: nothing collects the plan, so at least log it
+    console.error(`Dry run: not sending ${request.method} ${url}`);
+  }
+
+  const path = url.split("?")[0];
+  const resource = path.match(/^\/api\/resource\/([^/]+)(?:\/(.+))?$/);
+  if (!resource) {
+    return { message: null };
+  }
+  const doctype = decodeURIComponent(resource[1]);
+  if (request.method === "DELETE") {
+    return { message: "ok" };
+  }
+  const data = body && typeof body === "object" && body.data && typeof body.data === "object" ? body.data : body || {};
+  let name = resource[2] ? decodeURIComponent(resource[2]) : data.name;
+  if (!name) {
+    const counter = plan ? ++plan.created : 1;
+    name = `new-${doctype.toLowerCase().replace(/\s+/g, "-")}-${counter}`;
+  }
+  return { data: { ...data, doctype, name } };
+}
+
+// Request bodies as they are worth showing: multipart uploads are summarised rather than dumped
+function describeBody(body: any): any {
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    const fields: Record<string, any> = {};
+    for (const [key, value] of body.entries()) {
+      const file = value as any;
+      fields[key] = typeof value === "string" ? value : `[file${file.name ? ` ${file.name}` : ""}, ${file.size} bytes]`;
+    }
+    return fields;
+  }
+  return body;
+}
+
+// Text shown ahead of a dry-run tool result
+export function formatDryRunPlan(requests: PlannedRequest[]): string {
+  if (!requests.length) {
+    return "Dry run: this call made no write requests to ERPNext.";
+  }
+  const lines = [`Dry run: nothing was sent to ERPNext. These ${requests.length} write request(s) would have been made:`];
+  requests.forEach((request, index) => {
+    lines.push("", `${index + 1}. ${request.method} ${request.url}`);
+    if (request.body !== undefined) {
+      lines.push(JSON.stringify(request.body, null, 2));
+    }
+  });
+  lines.push("", "The output below comes from simulated responses; names such as new-customer-1 are placeholders.");
+  return lines.join("\n");
+}
@@ -0,0 +1,219 @@
+import { statSync, readFileSync } from "node:fs";
+import { timingSafeEqual } from "node:crypto";
+import { IncomingMessage } from "node:http";
+import path from "node:path";
+
+/**
+ * API key authentication for the HTTP transport.
+ *
+ * Keys live in a local JSON secret file (MCP_AUTH_FILE, default
+ * `.mcp-auth.json` in the working directory):
+ *
+ *   { "api_keys": [{ "name": "dashboard", "key": "...", "expires_at": "2025-12-31" }] }
+ *
+ * Clients send the key as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * The file is re-read when it changes, so keys can be rotated without a restart.
+ *
+ * A key may map to its own ERPNext site and user via an `erpnext` entry
+ * (`{ "url": "...", "api_key": "...", "api_secret": "..." }`), and clients may
+ * pass their own ERPNext token in `X-ERPNext-Token`, either as
+ * `<api_key>:<api_secret>` or as an OAuth2 `Bearer <access_token>`.
+ *
+ * A key may only use the site profiles (erpnext-sites.json) listed in its
+ * `sites` entry; without one, the `site` tool argument is refused. Sessions
+ * with their own ERPNext credentials use them on those sites too.
+ *
+ * `query_audit_log` only shows a key its own entries; keys with
+ * `"admin": true` see every client's entries, on every site.
+ */
+
+export interface ErpnextCredentials {
+  url?: string;
+  api_key?: string;
+  api_secret?: string;
+  access_token?: string;
+}
+
+export interface ApiKeyEntry {
+  name: string;
+  key: string;
+  disabled?: boolean;
+  expires_at?: string;
+  erpnext?: ErpnextCredentials;
+  sites?: string[];
+  admin?: boolean;
+}
+
+export type AuthResult =
+  | { ok: true; client: string; erpnext?: ErpnextCredentials; sites?: string[]; admin?: boolean }
+  | { ok: false; status: 401 | 403; error: string };
+
+interface LoadedKeys {
+  mtimeMs: number;
+  keys: ApiKeyEntry[];
+}
+
+let loaded: LoadedKeys | null = null;
+
+export function getAuthFilePath(): string {
+  return path.resolve(process.env.MCP_AUTH_FILE || ".mcp-auth.json");
+}
+
+export function isAuthDisabled(): boolean {
+  return String(process.env.MCP_AUTH_DISABLED || "").toLowerCase() === "true";
+}
+
+// Load (or reuse) the API keys from the secret file
+export function loadApiKeys(): ApiKeyEntry[] {
+  const filePath = getAuthFilePath();
+
+  let mtimeMs: number;
+  let mode: number;
+  try {
+    const stats = statSync(filePath);
+    mtimeMs = stats.mtimeMs;
+    mode = stats.mode;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      loaded = null;
+      return [];
+    }
+    throw error;
+  }
+
+  if (loaded && loaded.mtimeMs === mtimeMs) {
+    return loaded.keys;
+  }
+
+  if (process.platform !== "win32" && (mode & 0o077) !== 0) {
+    console.warn(`Auth file ${filePath} is readable by other users; consider chmod 600.`);
+  }
+
+  const parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+  const entries = Array.isArray(parsed?.api_keys) ? parsed.api_keys : [];
+  const keys: ApiKeyEntry[] = [];
+
+  for (const entry of entries) {
+    if (!entry || typeof entry.key !== "string" || !entry.key || typeof entry.name !== "string") {
+      console.warn(`Ignoring invalid API key entry in ${filePath}: each entry needs a name and key`);
+      continue;
+    }
+    if (entry.erpnext && !entry.erpnext.access_token && (!entry.erpnext.api_key || !entry.erpnext.api_secret)) {
+      console.warn(`Ignoring API key '${entry.name}' in ${filePath}: erpnext mapping needs api_key and api_secret, or access_token`);
+      continue;
+    }
+    if (entry.sites !== undefined && (!Array.isArray(entry.sites) || entry.sites.some((site: unknown) => typeof site !== "string"))) {
+      console.warn(`Ignoring API key '${entry.name}' in ${filePath}: sites must be a list of site profile names`);
+      continue;
+    }
+    if (entry.admin !== undefined && typeof entry.admin !== "boolean") {
+      console.warn(`Ignoring API key '${entry.name}' in ${filePath}: admin must be true or false`);
+      continue;
+    }
+    keys.push(entry);
+  }
+
+  loaded = { mtimeMs, keys };
+  return keys;
+}
+
+function extractKey(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  if (typeof authorization === "string") {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+
+  const apiKey = req.headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey.trim()) {
+    return apiKey.trim();
+  }
+
+  return null;
+}
+
+function keysMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Check the credentials on an incoming request.
+ * 401 means no or unknown credentials; 403 means the key is known but may not be used.
+ */
+export function authenticateRequest(req: IncomingMessage): AuthResult {
+  if (isAuthDisabled()) {
+    // With authentication off every caller is trusted alike, so all site profiles are open
+    return { ok: true, client: "anonymous" };
+  }
+
+  let keys: ApiKeyEntry[];
+  try {
+    keys = loadApiKeys();
+  } catch (error: any) {
+    console.error("Failed to load API keys:", error?.message || error);
+    return { ok: false, status: 401, error: "Authentication is unavailable" };
+  }
+
+  if (keys.length === 0) {
+    return { ok: false, status: 401, error: "No API keys are configured on this server" };
+  }
+
+  const presented = extractKey(req);
+  if (!presented) {
+    return { ok: false, status: 401, error: "Missing API key" };
+  }
+
+  const entry = keys.find((candidate) => keysMatch(candidate.key, presented));
+  if (!entry) {
+    return { ok: false, status: 401, error: "Invalid API key" };
+  }
+
+  if (entry.disabled) {
+    return { ok: false, status: 403, error: "API key is disabled" };
+  }
+
+  if (entry.expires_at) {
+    const expiresAt = Date.parse(entry.expires_at);
+    if (Number.isNaN(expiresAt) || expiresAt <= Date.now()) {
+      return { ok: false, status: 403, error: "API key has expired" };
+    }
+  }
+
+  return { ok: true, client: entry.name, erpnext: entry.erpnext, sites: entry.sites || [], admin: entry.admin === true };
+}
+
+/**
+ * Work out which ERPNext credentials a new session should use.
+ * A token sent by the client wins over the key's mapping; with neither,
+ * the session falls back to the server's own credentials (undefined).
+ */
+export function getSessionCredentials(
+  req: IncomingMessage,
+  mapped?: ErpnextCredentials
+): ErpnextCredentials | undefined {
+  const header = req.headers["x-erpnext-token"];
+  if (typeof header !== "string" || !header.trim()) {
+    return mapped;
+  }
+
+  const bearer = header.trim().match(/^Bearer\s+(.+)$/i);
+  if (bearer) {
+    return { url: mapped?.url, access_token: bearer[1].trim() };
+  }
+
+  const token = header.trim().replace(/^token\s+/i, "");
+  const separator = token.indexOf(":");
+  if (separator <= 0 || separator === token.length - 1) {
+    throw new Error("X-ERPNext-Token must be in the form <api_key>:<api_secret> or Bearer <access_token>");
+  }
+
+  return {
+    url: mapped?.url,
+    api_key: token.slice(0, separator),
+    api_secret: token.slice(separator + 1)
+  };
+}
@@ -1,17 +1,95 @@
 import { createServer, IncomingMessage, ServerResponse } from "node:http";
 import { URL, fileURLToPath } from "node:url";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { server as mcpServer } from "./index.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { AuditCaller, createMcpServer, ERPNextClient, SiteAccess } from "./index.js";
+import {
+  ErpnextCredentials,
+  authenticateRequest,
+  getAuthFilePath,
+  getSessionCredentials,
+  isAuthDisabled,
+  loadApiKeys
+} from "./http-auth.js";
+import {
+  SESSION_HEADER,
+  StreamableHttpServerTransport,
+  isInitializeRequest,
+  parseMessages
+} from "./streamable-http.js";
+import { listCircuitBreakers } from "./circuit-breaker.js";
+import { getSiteProfile, loadSiteConfig } from "./sites.js";
 
-const transports = new Map<string, SSEServerTransport>();
+interface SseSession {
+  transport: SSEServerTransport;
+  server: Server;
+  client: string;
+}
+
+interface StreamableSession {
+  transport: StreamableHttpServerTransport;
+  server: Server;
+  client: string;
+  lastActive: number;
+}
+
+const sessions = new Map<string, SseSession>();
+const streamableSessions = new Map<string, StreamableSession>();
+
+function readSetting(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Streamable HTTP sessions with no request for this long are closed (MCP_SESSION_IDLE_TIMEOUT
+// in milliseconds, default 30 minutes; 0 keeps them until DELETE)
+const SESSION_IDLE_TIMEOUT = readSetting(process.env.MCP_SESSION_IDLE_TIMEOUT, 30 * 60 * 1000);
+// Sessions one API key may have open at once (MCP_MAX_SESSIONS_PER_CLIENT, default 20; 0 for no limit)
+const MAX_SESSIONS_PER_CLIENT = readSetting(process.env.MCP_MAX_SESSIONS_PER_CLIENT, 20);
+
+// Answer 429 when the client already has as many sessions open as it may
+function refuseExtraSession(res: ServerResponse, client: string): boolean {
+  if (MAX_SESSIONS_PER_CLIENT <= 0) {
+    return false;
+  }
+  const open = [...sessions.values(), ...streamableSessions.values()].filter((session) => session.client === client).length;
+  if (open < MAX_SESSIONS_PER_CLIENT) {
+    return false;
+  }
+  res.writeHead(429, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: `Too many open sessions for this API key (limit ${MAX_SESSIONS_PER_CLIENT}); end unused ones with DELETE /mcp` }));
+  return true;
+}
+
+async function closeStreamableSession(session: StreamableSession): Promise<void> {
+  try {
+    await session.server.close();
+  } catch (error) {
+    console.error("Failed to close streamable HTTP session:", error);
+  }
+  streamableSessions.delete(session.transport.sessionId);
+}
+
+// Close sessions whose client went away without DELETE; an open stream counts as activity
+function closeIdleSessions(): void {
+  const now = Date.now();
+  for (const session of streamableSessions.values()) {
+    if (session.transport.isStreaming) {
+      session.lastActive = now;
+    } else if (now - session.lastActive >= SESSION_IDLE_TIMEOUT) {
+      void closeStreamableSession(session);
+    }
+  }
+}
 
 function setCorsHeaders(res: ServerResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader(
     "Access-Control-Allow-Headers",
-    "Content-Type, Authorization, Accept"
+    "Content-Type, Authorization, Accept, Mcp-Session-Id, X-API-Key, X-ERPNext-Token"
   );
-  res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
+  res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,DELETE,OPTIONS");
 }
 
 function handleOptions(res: ServerResponse) {
@@ -19,37 +97,122 @@ function handleOptions(res: ServerResponse) {
   res.writeHead(204).end();
 }
 
-function handleHealth(res: ServerResponse) {
+// Liveness of this server: `degraded` while any ERPNext site's circuit breaker is open.
+// Stays 200 while a site is down, since this server itself is still working. Only callers
+// with a valid API key see the breaker state per site (which names the upstream URLs)
+// and the session count.
+function handleHealth(req: IncomingMessage, res: ServerResponse) {
+  const breakers = listCircuitBreakers();
+  const status = breakers.some((breaker) => breaker.state !== "closed") ? "degraded" : "ok";
+  const detail = authenticateRequest(req).ok
+    ? {
+        sessions: sessions.size + streamableSessions.size,
+        upstream: breakers.map(({ site, state, consecutive_failures, opened_at }) => ({
+          site,
+          state,
+          consecutive_failures,
+          opened_at
+        }))
+      }
+    : {};
+
   setCorsHeaders(res);
   res.writeHead(200, { "Content-Type": "application/json" });
-  res.end(JSON.stringify({ status: "ok", timestamp: new Date().toISOString() }));
+  res.end(JSON.stringify({ status, ...detail, timestamp: new Date().toISOString() }));
+}
+
+// Build the MCP server for a new session, acting as the caller's own ERPNext
+// user when the request or API key carries credentials. `caller` identifies the
+// session in the audit log; its session_id is filled in once the transport exists.
+// `sites` lists the site profiles the API key may use (undefined: all).
+function createSessionServer(
+  req: IncomingMessage,
+  caller: AuditCaller,
+  mapped?: ErpnextCredentials,
+  sites?: string[]
+): Server {
+  const credentials = getSessionCredentials(req, mapped);
+  if (!credentials) {
+    return createMcpServer(undefined, caller, { allowedSites: sites });
+  }
+
+  // Site profiles are reached with the session's own credentials, never the profile's
+  const access: SiteAccess = {
+    allowedSites: sites,
+    credentials: {
+      apiKey: credentials.api_key,
+      apiSecret: credentials.api_secret,
+      accessToken: credentials.access_token
+    }
+  };
+
+  return createMcpServer(
+    new ERPNextClient({
+      url: credentials.url || defaultSiteUrl(),
+      apiKey: credentials.api_key,
+      apiSecret: credentials.api_secret,
+      oauth: credentials.access_token ? { accessToken: credentials.access_token } : undefined
+    }),
+    caller,
+    access
+  );
+}
+
+// The default site profile's URL, which sessions without a mapped URL use like the
+// server's own client does; without a default site, ERPNEXT_URL applies
+function defaultSiteUrl(): string | undefined {
+  const { defaultSite } = loadSiteConfig();
+  return defaultSite ? getSiteProfile(defaultSite)?.url : undefined;
+}
+
+function sendSessionForbidden(res: ServerResponse) {
+  res.writeHead(403, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: "Session belongs to a different client" }));
 }
 
 async function handleSseConnection(
   req: IncomingMessage,
-  res: ServerResponse
+  res: ServerResponse,
+  client: string,
+  mapped?: ErpnextCredentials,
+  sites?: string[],
+  admin?: boolean
 ): Promise<void> {
   setCorsHeaders(res);
 
+  if (refuseExtraSession(res, client)) {
+    return;
+  }
+
+  const caller: AuditCaller = { client, remote: true, admin };
+  let mcpServer: Server;
+  try {
+    mcpServer = createSessionServer(req, caller, mapped, sites);
+  } catch (error: any) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: error?.message || "Invalid ERPNext credentials" }));
+    return;
+  }
+
   const transport = new SSEServerTransport("/message", res);
-  transports.set(transport.sessionId, transport);
+  caller.session_id = transport.sessionId;
+  sessions.set(transport.sessionId, { transport, server: mcpServer, client });
 
-  transport.onclose = () => {
-    transports.delete(transport.sessionId);
+  // The server takes over the transport callbacks on connect, so session
+  // bookkeeping hangs off the server instead.
+  mcpServer.onclose = () => {
+    sessions.delete(transport.sessionId);
   };
 
-  transport.onerror = (error) => {
-    console.error("SSE transport error:", error);
+  mcpServer.onerror = (error) => {
+    console.error(`SSE session ${transport.sessionId} error:`, error);
   };
 
   try {
-    if (mcpServer.transport) {
-      await mcpServer.close();
-    }
     await mcpServer.connect(transport);
   } catch (error) {
     console.error("Failed to start SSE transport:", error);
-    transports.delete(transport.sessionId);
+    sessions.delete(transport.sessionId);
     if (!res.headersSent) {
       res.writeHead(500, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Failed to start SSE transport" }));
@@ -62,7 +225,8 @@ async function handleSseConnection(
 async function handleMessage(
   req: IncomingMessage,
   res: ServerResponse,
-  url: URL
+  url: URL,
+  client: string
 ): Promise<void> {
   setCorsHeaders(res);
 
@@ -73,15 +237,136 @@ async function handleMessage(
     return;
   }
 
-  const transport = transports.get(sessionId);
-  if (!transport) {
+  const session = sessions.get(sessionId);
+  if (!session) {
     res.writeHead(404, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: "Unknown session" }));
     return;
   }
 
+  if (session.client !== client) {
+    sendSessionForbidden(res);
+    return;
+  }
+
+  try {
+    await session.transport.handlePostMessage(req, res);
+  } catch (error) {
+    console.error("Failed to forward message to MCP server:", error);
+    if (!res.headersSent) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Failed to forward message" }));
+    }
+  }
+}
+
+function getStreamableSession(
+  req: IncomingMessage,
+  res: ServerResponse,
+  client: string
+): StreamableSession | undefined {
+  const sessionId = req.headers[SESSION_HEADER];
+  if (typeof sessionId !== "string" || !sessionId) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Missing Mcp-Session-Id header" }));
+    return undefined;
+  }
+
+  const session = streamableSessions.get(sessionId);
+  if (!session) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Unknown session" }));
+    return undefined;
+  }
+
+  if (session.client !== client) {
+    sendSessionForbidden(res);
+    return undefined;
+  }
+
+  session.lastActive = Date.now();
+  return session;
+}
+
+async function startStreamableSession(
+  mcpServer: Server,
+  caller: AuditCaller
+): Promise<StreamableSession> {
+  const transport = new StreamableHttpServerTransport();
+  caller.session_id = transport.sessionId;
+
+  mcpServer.onclose = () => {
+    streamableSessions.delete(transport.sessionId);
+  };
+
+  mcpServer.onerror = (error) => {
+    console.error(`Streamable HTTP session ${transport.sessionId} error:`, error);
+  };
+
+  await mcpServer.connect(transport);
+  const session = { transport, server: mcpServer, client: caller.client, lastActive: Date.now() };
+  streamableSessions.set(transport.sessionId, session);
+  return session;
+}
+
+async function handleMcpPost(
+  req: IncomingMessage,
+  res: ServerResponse,
+  client: string,
+  mapped?: ErpnextCredentials,
+  sites?: string[],
+  admin?: boolean
+): Promise<void> {
+  setCorsHeaders(res);
+
+  let messages;
+  try {
+    messages = await parseMessages(req);
+  } catch (error: any) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: `Invalid JSON-RPC message: ${error?.message || "Unknown error"}` }));
+    return;
+  }
+
+  let session: StreamableSession | undefined;
+  if (messages.some(isInitializeRequest)) {
+    if (messages.length > 1) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Initialize request must not be batched" }));
+      return;
+    }
+
+    if (refuseExtraSession(res, client)) {
+      return;
+    }
+
+    const caller: AuditCaller = { client, remote: true, admin };
+    let mcpServer: Server;
+    try {
+      mcpServer = createSessionServer(req, caller, mapped, sites);
+    } catch (error: any) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: error?.message || "Invalid ERPNext credentials" }));
+      return;
+    }
+
+    try {
+      session = await startStreamableSession(mcpServer, caller);
+    } catch (error) {
+      console.error("Failed to start streamable HTTP session:", error);
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Failed to start session" }));
+      return;
+    }
+  } else {
+    session = getStreamableSession(req, res, client);
+    if (!session) {
+      return;
+    }
+  }
+
   try {
-    await transport.handlePostMessage(req, res);
+    await session.transport.handlePostMessages(req, res, messages);
   } catch (error) {
     console.error("Failed to forward message to MCP server:", error);
     if (!res.headersSent) {
@@ -91,6 +376,37 @@ async function handleMessage(
   }
 }
 
+async function handleMcpGet(
+  req: IncomingMessage,
+  res: ServerResponse,
+  client: string
+): Promise<void> {
+  setCorsHeaders(res);
+
+  const session = getStreamableSession(req, res, client);
+  if (!session) {
+    return;
+  }
+
+  await session.transport.handleGetStream(req, res);
+}
+
+async function handleMcpDelete(
+  req: IncomingMessage,
+  res: ServerResponse,
+  client: string
+): Promise<void> {
+  setCorsHeaders(res);
+
+  const session = getStreamableSession(req, res, client);
+  if (!session) {
+    return;
+  }
+
+  await closeStreamableSession(session);
+  res.writeHead(204).end();
+}
+
 const httpServer = createServer(async (req, res) => {
   if (!req.url) {
     res.writeHead(400, { "Content-Type": "application/json" });
@@ -100,23 +416,53 @@ const httpServer = createServer(async (req, res) => {
 
   const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
 
+  if (req.method === "OPTIONS") {
+    handleOptions(res);
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    handleHealth(req, res);
+    return;
+  }
+
+  // Everything past this point requires an API key
+  const auth = authenticateRequest(req);
+  if (!auth.ok) {
+    setCorsHeaders(res);
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (auth.status === 401) {
+      headers["WWW-Authenticate"] = "Bearer";
+    }
+    res.writeHead(auth.status, headers);
+    res.end(JSON.stringify({ error: auth.error }));
+    return;
+  }
+
   switch (req.method) {
-    case "OPTIONS":
-      handleOptions(res);
-      return;
     case "GET":
-      if (url.pathname === "/health") {
-        handleHealth(res);
+      if (url.pathname === "/sse") {
+        await handleSseConnection(req, res, auth.client, auth.erpnext, auth.sites, auth.admin);
         return;
       }
-      if (url.pathname === "/sse") {
-        await handleSseConnection(req, res);
+      if (url.pathname === "/mcp") {
+        await handleMcpGet(req, res, auth.client);
         return;
       }
       break;
     case "POST":
       if (url.pathname === "/message") {
-        await handleMessage(req, res, url);
+        await handleMessage(req, res, url, auth.client);
+        return;
+      }
+      if (url.pathname === "/mcp") {
+        await handleMcpPost(req, res, auth.client, auth.erpnext, auth.sites, auth.admin);
+        return;
+      }
+      break;
+    case "DELETE":
+      if (url.pathname === "/mcp") {
+        await handleMcpDelete(req, res, auth.client);
         return;
       }
       break;
@@ -134,6 +480,26 @@ export function startHttpServer() {
   httpServer.listen(port, "0.0.0.0", () => {
     console.log(`Streaming MCP HTTP server listening on port ${port}`);
     console.log(`SSE endpoint: /sse`);
+    console.log(`Streamable HTTP endpoint: /mcp`);
+
+    if (SESSION_IDLE_TIMEOUT > 0) {
+      setInterval(closeIdleSessions, Math.min(SESSION_IDLE_TIMEOUT, 60 * 1000)).unref();
+    }
+
+    if (isAuthDisabled()) {
+      console.warn("MCP_AUTH_DISABLED=true: HTTP endpoints accept unauthenticated requests");
+      return;
+    }
+    try {
+      const keys = loadApiKeys();
+      if (keys.length === 0) {
+        console.warn(`No API keys found in ${getAuthFilePath()}; all requests will be rejected`);
+      } else {
+        console.log(`Loaded ${keys.length} API key(s) from ${getAuthFilePath()}`);
+      }
+    } catch (error: any) {
+      console.error(`Failed to load API keys from ${getAuthFilePath()}:`, error?.message || error);
+    }
   });
 }
 
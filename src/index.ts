@@ -51,6 +51,101 @@ interface DocTypeDefinition {
   links?: any[];
 }
 
+// Credentials default to the ERPNEXT_* environment variables only when no url is given
+interface ERPNextClientOptions {
+  url?: string;        // Defaults to ERPNEXT_URL
+  apiKey?: string;     // Defaults to ERPNEXT_API_KEY
+  apiSecret?: string;  // Defaults to ERPNEXT_API_SECRET
+  username?: string;   // Defaults to ERPNEXT_USERNAME (session login)
+  password?: string;   // Defaults to ERPNEXT_PASSWORD
+  oauth?: OAuthOptions;
+  maxRetries?: number;
+  retryDelay?: number; // milliseconds
+  timeout?: number;    // milliseconds
+}
+
+// OAuth2 bearer auth against Frappe's OAuth provider
+interface OAuthOptions {
+  clientId?: string;      // Defaults to ERPNEXT_OAUTH_CLIENT_ID
+  clientSecret?: string;  // Defaults to ERPNEXT_OAUTH_CLIENT_SECRET
+  accessToken?: string;   // Defaults to ERPNEXT_OAUTH_ACCESS_TOKEN
+  refreshToken?: string;  // Defaults to ERPNEXT_OAUTH_REFRESH_TOKEN
+  tokenFile?: string;     // Defaults to ERPNEXT_OAUTH_TOKEN_FILE; keeps rotated tokens across restarts
+}
+
+interface OAuthState {
+  clientId?: string;
+  clientSecret?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  tokenFile?: string;
+}
+
+// Frappe list filters: {field: value}, {field: [op, value]} or [[field, op, value], ...]
+type ListFilters = Record<string, any> | any[];
+
+// Extra Frappe list query parameters beyond filters/fields/limit
+interface ListQueryOptions {
+  limitStart?: number;
+  orderBy?: string;
+  orFilters?: ListFilters;
+  groupBy?: string;
+}
+
+// One page of a list query; nextCursor is set when more rows follow
+interface DocPage {
+  data: any[];
+  nextCursor?: string;
+}
+
+// State carried inside an (opaque) list continuation cursor
+interface ListCursor {
+  doctype: string;
+  filters?: ListFilters;
+  fields?: string[];
+  orFilters?: ListFilters;
+  orderBy?: string;
+  groupBy?: string;
+  start: number;
+  pageSize: number;
+}
+
+// Arguments for upload_attachment: the file comes from base64 content or a local path
+interface AttachmentUpload {
+  content_base64?: string;
+  path?: string;
+  file_name?: string;
+  doctype?: string;
+  name?: string;
+  fieldname?: string;
+  is_private?: boolean;
+  folder?: string;
+}
+
+// One entry of a document's timeline (get_timeline)
+interface TimelineEntry {
+  timestamp: string;
+  type: 'comment' | 'communication' | 'change' | 'assignment' | 'info';
+  by?: string;
+  summary: string;
+  source: { doctype: string; name: string };
+}
+
+// One aggregate column for aggregate_documents, e.g. { function: "sum", field: "grand_total" }
+interface AggregateMetric {
+  function: 'count' | 'sum' | 'avg' | 'min' | 'max';
+  field?: string;
+}
+
+// A ranked candidate from resolve_link
+interface LinkCandidate {
+  name: string;
+  title?: string;
+  description?: string;
+  match: 'exact_name' | 'exact_title' | 'prefix' | 'partial';
+}
+
 interface ErrorDetails {
   message: string;
   status?: number;
@@ -75,6 +170,402 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import axios, { AxiosInstance } from "axios";
 import process from 'node:process';
+import { existsSync, readFileSync, realpathSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { CookieJar } from "./cookie-jar.js";
+import { getMetaCache, getWarmDocTypes, MetaCache } from "./meta-cache.js";
+import { getRequestScheduler, parseRetryAfter, RequestScheduler } from "./request-scheduler.js";
+import { CircuitBreaker, CircuitOpenError, getCircuitBreaker, isOutageError } from "./circuit-breaker.js";
+import { audited, AuditCaller, noteUpstreamStatus, queryAuditLog, runToolCall } from "./audit-log.js";
+import { formatDryRunPlan, isDryRun, isDryRunDefault, planRequest, runDryRun } from "./dry-run.js";
+import { getSiteProfile, listSiteProfiles, loadSiteConfig, SiteProfile } from "./sites.js";
+
+// Operators accepted by Frappe list filters
+const FILTER_OPERATORS = [
+  '=', '!=', '>', '<', '>=', '<=', 'like', 'not like', 'in', 'not in',
+  'between', 'is', 'timespan', 'descendants of', 'not descendants of',
+  'ancestors of', 'not ancestors of', 'descendants of (inclusive)'
+];
+
+// Field types grouped by which filter operators make sense for them
+const TEXT_FIELD_TYPES = [
+  'Data', 'Link', 'Dynamic Link', 'Select', 'Text', 'Small Text', 'Long Text',
+  'Text Editor', 'Markdown Editor', 'HTML Editor', 'Code', 'Read Only', 'Phone',
+  'Autocomplete', 'Barcode', 'Color', 'Password', 'Attach', 'Attach Image', 'JSON', 'Icon'
+];
+const RANGE_FIELD_TYPES = [
+  'Date', 'Datetime', 'Time', 'Int', 'Float', 'Currency', 'Percent', 'Duration', 'Rating'
+];
+const UNFILTERABLE_FIELD_TYPES = [
+  'Table', 'Table MultiSelect', 'Section Break', 'Column Break', 'Tab Break', 'HTML', 'Button', 'Fold', 'Heading'
+];
+
+// Fields every DocType has, which are not listed in its meta
+const STANDARD_FIELD_TYPES: Record<string, string> = {
+  name: 'Data',
+  owner: 'Link',
+  modified_by: 'Link',
+  creation: 'Datetime',
+  modified: 'Datetime',
+  docstatus: 'Int',
+  idx: 'Int',
+  parent: 'Data',
+  parentfield: 'Data',
+  parenttype: 'Data',
+  _user_tags: 'Text',
+  _comments: 'Text',
+  _assign: 'Text',
+  _liked_by: 'Text'
+};
+
+// Largest attachment download_attachment will return inline (bytes)
+const MAX_ATTACHMENT_BYTES = Number(process.env.ERPNEXT_MAX_ATTACHMENT_BYTES) || 20 * 1024 * 1024;
+// The only directory upload_attachment may read `path` files from; unset turns path uploads off
+const UPLOAD_DIR = process.env.ERPNEXT_UPLOAD_DIR || '';
+
+// Real path of a file inside UPLOAD_DIR (relative paths are taken from there); throws for anything else
+function resolveUploadPath(filePath: string): string {
+  if (!UPLOAD_DIR) {
+    throw new Error('Uploading from a path is turned off: set ERPNEXT_UPLOAD_DIR to the directory files may be read from, or send content_base64');
+  }
+  let root: string;
+  let resolved: string;
+  try {
+    root = realpathSync(UPLOAD_DIR);
+  } catch {
+    throw new Error(`Upload directory ${UPLOAD_DIR} does not exist`);
+  }
+  try {
+    // realpath follows symlinks, so a link inside the directory cannot point out of it
+    resolved = realpathSync(path.resolve(root, filePath));
+  } catch {
+    throw new Error(`File not found in the upload directory: ${filePath}`);
+  }
+  if (!resolved.startsWith(root + path.sep) || !statSync(resolved).isFile()) {
+    throw new Error(`${filePath} is not a file inside the upload directory`);
+  }
+  return resolved;
+}
+
+// Comment types already covered by ToDo rows in the timeline
+const ASSIGNMENT_COMMENT_TYPES = ['Assigned', 'Assignment Completed'];
+
+// Plain text from Frappe's HTML comment/email bodies, squashed to one line
+function htmlToText(html: string | undefined, maxLength: number = 500): string {
+  const text = String(html || '')
+    .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+// Describe the field changes stored in a Version row's data
+function summarizeVersion(data: string | undefined): string {
+  let diff: any;
+  try {
+    diff = JSON.parse(data || '{}');
+  } catch {
+    return 'changed the document';
+  }
+
+  const parts: string[] = [];
+  for (const [field, oldValue, newValue] of diff.changed || []) {
+    parts.push(`${field}: ${JSON.stringify(oldValue)} → ${JSON.stringify(newValue)}`);
+  }
+  for (const [table, row] of diff.added || []) {
+    parts.push(`added a ${table} row${row?.idx ? ` (#${row.idx})` : ''}`);
+  }
+  for (const [table, row] of diff.removed || []) {
+    parts.push(`removed a ${table} row${row?.idx ? ` (#${row.idx})` : ''}`);
+  }
+  for (const [table, idx, , changes] of diff.row_changed || []) {
+    for (const [field, oldValue, newValue] of changes || []) {
+      parts.push(`${table}[${idx}].${field}: ${JSON.stringify(oldValue)} → ${JSON.stringify(newValue)}`);
+    }
+  }
+  if (diff.comment) {
+    parts.push(diff.comment);
+  }
+
+  return parts.length ? `changed ${parts.join('; ')}` : 'changed the document';
+}
+
+const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max'];
+const NUMERIC_FIELD_TYPES = ['Int', 'Float', 'Currency', 'Percent', 'Duration'];
+
+// Render rows as a compact pipe-separated table
+function formatTable(columns: string[], rows: any[][]): string {
+  const cell = (value: any) => (value === null || value === undefined ? '' : String(value).replace(/\|/g, '\\|'));
+  const lines = [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`)
+  ];
+  return lines.join('\n');
+}
+
+// Bookkeeping keys a child row may carry besides its fields
+const CHILD_ROW_KEYS = ['doctype', '__islocal', '__unsaved'];
+
+const CHECK_TRUE_VALUES = ['1', 'true', 'yes', 'y', 'on', 'checked'];
+const CHECK_FALSE_VALUES = ['0', 'false', 'no', 'n', 'off', 'unchecked', ''];
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// YYYY-MM-DD for a calendar date, or undefined for impossible ones like 31 February
+function formatDateParts(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+}
+
+// Read a date written as YYYY-MM-DD, D/M/Y (day or month first) or with a month name.
+// When day and month could swap, the site's date_format (e.g. "dd-mm-yyyy") decides.
+function parseDateText(text: string, dateFormat?: string): { date?: string; error?: string } {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    const date = formatDateParts(+iso[1], +iso[2], +iso[3]);
+    return date ? { date } : { error: `"${text}" is not a valid date` };
+  }
+
+  const parts = text.match(/^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2}|\d{4})$/);
+  if (parts) {
+    const [first, second] = [+parts[1], +parts[2]];
+    const year = parts[3].length === 2 ? 2000 + +parts[3] : +parts[3];
+    let dayFirst: boolean;
+    if (first > 12 && second <= 12) {
+      dayFirst = true;
+    } else if (second > 12 && first <= 12) {
+      dayFirst = false;
+    } else if (first === second) {
+      dayFirst = true;
+    } else if (dateFormat && /^(dd|mm)/.test(dateFormat)) {
+      dayFirst = dateFormat.startsWith('dd');
+    } else {
+      return { error: `"${text}" is ambiguous (day/month order unknown) – use YYYY-MM-DD` };
+    }
+    const [day, month] = dayFirst ? [first, second] : [second, first];
+    const date = formatDateParts(year, month, day);
+    return date ? { date } : { error: `"${text}" is not a valid date` };
+  }
+
+  // Month names, e.g. "12 Mar 2024" or "March 12, 2024"
+  if (/[a-z]/i.test(text)) {
+    const parsed = new Date(text);
+    if (!Number.isNaN(parsed.getTime())) {
+      return { date: `${parsed.getFullYear()}-${pad2(parsed.getMonth() + 1)}-${pad2(parsed.getDate())}` };
+    }
+  }
+
+  return { error: `"${text}" is not a recognisable date – use YYYY-MM-DD` };
+}
+
+// Read a time such as "14:30", "2:30 pm" or "14:30:15.5" as HH:MM:SS
+function parseTimeText(text: string): { time?: string; error?: string } {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}(?:\.\d+)?))?\s*([ap]\.?m\.?)?$/i);
+  if (!match || (!match[2] && !match[4])) {
+    return { error: `"${text}" is not a recognisable time – use HH:MM:SS` };
+  }
+  let hours = +match[1];
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, '');
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return { error: `"${text}" is not a valid time` };
+    }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  const minutes = +(match[2] || 0);
+  const seconds = match[3] || '00';
+  if (hours > 23 || minutes > 59 || parseFloat(seconds) >= 60) {
+    return { error: `"${text}" is not a valid time` };
+  }
+  return { time: `${pad2(hours)}:${pad2(minutes)}:${seconds.padStart(2, '0')}` };
+}
+
+// Separators of Frappe's number formats (System Settings number_format); `decimal` is null
+// for the formats without decimals. Spaces and apostrophes are dropped before parsing.
+const NUMBER_FORMAT_SEPARATORS: Record<string, { decimal: string | null; group: string }> = {
+  '#,###.##': { decimal: '.', group: ',' },
+  '#.###,##': { decimal: ',', group: '.' },
+  '# ###.##': { decimal: '.', group: ' ' },
+  '# ###,##': { decimal: ',', group: ' ' },
+  "#'###.##": { decimal: '.', group: "'" },
+  '#, ###.##': { decimal: '.', group: ',' },
+  '#,##,###.##': { decimal: '.', group: ',' },
+  '#,###.###': { decimal: '.', group: ',' },
+  '#.###': { decimal: null, group: '.' },
+  '#,###': { decimal: null, group: ',' }
+};
+
+// Whether digits are grouped in threes (1,234,567) or the Indian way (12,34,567), with no leading zero group
+function isGroupedInteger(digits: string, group: string): boolean {
+  const g = group === '.' ? '\\.' : group;
+  return !/^0/.test(digits) && (new RegExp(`^\\d{1,3}(${g}\\d{3})+$`).test(digits) || new RegExp(`^\\d{1,2}(${g}\\d{2})+${g}\\d{3}$`).test(digits));
+}
+
+// Read a number written with thousands separators, currency symbols or a trailing %.
+// The site's number_format decides which of '.' and ',' is the decimal separator; without it
+// a lone '.' is a decimal point, and a lone ',' before exactly three digits is rejected as ambiguous.
+function parseNumberText(text: string, numberFormat?: string): { number?: number; error?: string } {
+  let cleaned = text.trim().replace(/[\s\u00a0%'\u2019]/g, '').replace(/^[^\d\-+.,(]+|[^\d.,)]+$/g, '');
+  const negative = /^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[()]/g, '');
+  const sign = /^[-+]/.test(cleaned) ? cleaned[0] : '';
+  const body = cleaned.slice(sign.length);
+  const invalid = { error: numberFormat ? `"${text}" is not a number in the site's number format (${numberFormat})` : `"${text}" is not a number` };
+
+  const separators = numberFormat ? NUMBER_FORMAT_SEPARATORS[numberFormat] : undefined;
+  let decimal: string | null;
+  let group: string;
+  if (separators) {
+    ({ decimal, group } = separators);
+  } else {
+    const lastDot = body.lastIndexOf('.');
+    const lastComma = body.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+      decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastComma >= 0 && body.indexOf(',') === lastComma) {
+      if (/^\d+,\d{3}$/.test(body)) {
+        return { error: `"${text}" is ambiguous: write ${body.replace(',', '')} without the thousands separator, or use a decimal point (${body.replace(',', '.')})` };
+      }
+      decimal = ',';
+    } else if (lastComma >= 0) {
+      // Repeated commas can only be grouping
+      decimal = '.';
+    } else {
+      // A lone '.' is a decimal point, repeated dots are grouping
+      decimal = body.indexOf('.') !== lastDot ? ',' : '.';
+    }
+    group = decimal === ',' ? '.' : ',';
+  }
+
+  const decimalAt = decimal ? body.lastIndexOf(decimal) : -1;
+  let integer = decimalAt >= 0 ? body.slice(0, decimalAt) : body;
+  const fraction = decimalAt >= 0 ? body.slice(decimalAt + 1) : '';
+  if (integer.includes(group)) {
+    if (!isGroupedInteger(integer, group)) {
+      return invalid;
+    }
+    integer = integer.split(group).join('');
+  }
+  if (!/^\d*$/.test(integer) || !/^\d*$/.test(fraction) || !(integer + fraction)) {
+    return invalid;
+  }
+  const parsed = Number(`${sign}${integer || '0'}${fraction ? `.${fraction}` : ''}`);
+  return { number: negative ? -parsed : parsed };
+}
+
+// Coerce one value to what a field of the given type expects. Returns the value
+// unchanged when it already fits, or an error when it cannot be converted.
+function coerceFieldValue(field: any, value: any, dateFormat?: string, numberFormat?: string): { value?: any; error?: string } {
+  if (value === null || value === undefined || value === '') {
+    return { value };
+  }
+  const text = typeof value === 'string' ? value.trim() : value;
+
+  switch (field.fieldtype) {
+    case 'Date': {
+      if (value instanceof Date) {
+        return { value: value.toISOString().slice(0, 10) };
+      }
+      const { date, error } = parseDateText(String(text), dateFormat);
+      return error ? { error } : { value: date };
+    }
+    case 'Datetime': {
+      const match = String(text).match(/^(.+?)(?:[T\s]+(\d{1,2}(?::\d{2}){0,2}(?:\.\d+)?\s*(?:[ap]\.?m\.?)?)(Z|[+-]\d{2}:?\d{2})?)?$/i);
+      // Frappe stores wall-clock times in the site's time zone, so an offset cannot be kept
+      if (match?.[3]) {
+        return { error: `"${value}" has a time zone offset (${match[3]}); give the time in the site's time zone without an offset` };
+      }
+      const { date, error } = parseDateText(match ? match[1].trim() : String(text), dateFormat);
+      if (error) {
+        return { error };
+      }
+      const time = match?.[2] ? parseTimeText(match[2]) : { time: '00:00:00' };
+      return time.error ? { error: time.error } : { value: `${date} ${time.time}` };
+    }
+    case 'Time': {
+      const { time, error } = parseTimeText(String(text));
+      return error ? { error } : { value: time };
+    }
+    case 'Int':
+    case 'Float':
+    case 'Currency':
+    case 'Percent': {
+      const { number: parsed, error } = typeof value === 'number' ? { number: value } : parseNumberText(String(text), numberFormat);
+      if (error || parsed === undefined || Number.isNaN(parsed)) {
+        return { error: error || `"${value}" is not a number` };
+      }
+      if (field.fieldtype === 'Int' && !Number.isInteger(parsed)) {
+        return { error: `${value} is not a whole number` };
+      }
+      return { value: parsed };
+    }
+    case 'Check': {
+      if (value === true || value === false) {
+        return { value: value ? 1 : 0 };
+      }
+      const lowered = String(text).toLowerCase();
+      if (CHECK_TRUE_VALUES.includes(lowered)) {
+        return { value: 1 };
+      }
+      if (CHECK_FALSE_VALUES.includes(lowered)) {
+        return { value: 0 };
+      }
+      return { error: `"${value}" is not a yes/no value – use 1 or 0` };
+    }
+    case 'Select': {
+      const options = String(field.options || '').split('\n').map((o: string) => o.trim()).filter(Boolean);
+      if (!options.length || options.includes(String(value))) {
+        return { value };
+      }
+      const match = options.find((o: string) => o.toLowerCase() === String(text).toLowerCase());
+      if (match) {
+        return { value: match };
+      }
+      return { error: `"${value}" is not an option (allowed: ${options.join(', ')})` };
+    }
+    default:
+      return { value };
+  }
+}
+
+// Field (usually a hidden Custom Field) that stores a create's idempotency key on the document
+const IDEMPOTENCY_FIELD = process.env.ERPNEXT_IDEMPOTENCY_FIELD || 'mcp_idempotency_key';
+// How many idempotency keys each client remembers locally
+const MAX_IDEMPOTENCY_KEYS = 1000;
+
+// Paging limits for list tools (rows per page) and exports (rows in total)
+const DEFAULT_PAGE_SIZE = Number(process.env.ERPNEXT_PAGE_SIZE) || 20;
+const MAX_PAGE_SIZE = Number(process.env.ERPNEXT_MAX_PAGE_SIZE) || 500;
+const MAX_EXPORT_ROWS = Number(process.env.ERPNEXT_MAX_EXPORT_ROWS) || 10000;
+
+function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeListCursor(cursor: string): ListCursor {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor: pass back the cursor exactly as it was returned');
+  }
+  if (!decoded || typeof decoded.doctype !== 'string' || !Number.isInteger(decoded.start) || !Number.isInteger(decoded.pageSize)) {
+    throw new Error('Invalid cursor: pass back the cursor exactly as it was returned');
+  }
+  return decoded;
+}
 
 // ERPNext API client configuration
 class ERPNextClient {
@@ -83,13 +574,25 @@ class ERPNextClient {
   private authenticated: boolean = false;
   private maxRetries: number = 3;
   private retryDelay: number = 1000; // milliseconds
-  private doctypeCache: Map<string, { data: any; timestamp: number }> = new Map();
-  private cacheTimeout: number = 5 * 60 * 1000; // 5 minutes cache timeout
+  private metaCache: MetaCache;
+  private scheduler: RequestScheduler;
+  private breaker: CircuitBreaker;
+  private idempotencyKeys: Map<string, { doctype: string; name: string }> = new Map();
+  private idempotencyFieldSupport: Map<string, Promise<boolean>> = new Map();
+  private dateFormat: Promise<string | undefined> | null = null;
+  private numberFormat: Promise<string | undefined> | null = null;
+  private auditUser: Promise<string | undefined> | null = null;
   private httpsFallbackAttempted: boolean = false;
-
-  constructor() {
-    // Get ERPNext configuration from environment variables
-    const configuredUrl = (process.env.ERPNEXT_URL || '').trim();
+  private authMethod: 'token' | 'password' | 'oauth' | null = null;
+  private username: string = '';
+  private password: string = '';
+  private oauth: OAuthState | null = null;
+  private cookieJar: CookieJar = new CookieJar();
+  private pendingAuth: Promise<void> | null = null;
+
+  constructor(options: ERPNextClientOptions = {}) {
+    // Get ERPNext configuration from the options, falling back to environment variables
+    const configuredUrl = (options.url || process.env.ERPNEXT_URL || '').trim();
     this.baseUrl = configuredUrl;
 
     // Validate configuration
@@ -107,10 +610,21 @@ class ERPNextClient {
 
     // Remove trailing slash if present
     this.baseUrl = this.baseUrl.replace(/\/$/, '');
+    this.metaCache = getMetaCache(this.baseUrl);
+    this.scheduler = getRequestScheduler(this.baseUrl);
+    this.breaker = getCircuitBreaker(this.baseUrl);
+
+    if (options.maxRetries !== undefined) {
+      this.maxRetries = options.maxRetries;
+    }
+    if (options.retryDelay !== undefined) {
+      this.retryDelay = options.retryDelay;
+    }
 
     // Initialize axios instance
     this.axiosInstance = axios.create({
       baseURL: this.baseUrl,
+      timeout: options.timeout,
       withCredentials: true,
       headers: {
         'Content-Type': 'application/json',
@@ -118,11 +632,76 @@ class ERPNextClient {
       }
     });
     
+    // Attach session cookies / OAuth bearer token, logging in or refreshing first if needed
+    this.axiosInstance.interceptors.request.use(async (config: any) => {
+      // In dry-run mode writes are recorded and answered locally instead of sent
+      if (isDryRun() && this.isWriteRequest(config)) {
+        const data = planRequest(config.method, this.axiosInstance.getUri(config).slice(this.baseUrl.length), config.data);
+        config.__dryRun = true;
+        config.adapter = async () => ({ data, status: 200, statusText: 'OK', headers: {}, config, request: {} });
+        return config;
+      }
+
+      // Fail fast while the site is known to be down
+      this.breaker.beforeRequest();
+
+      if (!config.__skipAuth) {
+        await this.ensureAuthenticated();
+      }
+
+      const cookie = this.cookieJar.header();
+      if (cookie) {
+        config.headers['Cookie'] = cookie;
+      }
+      if (this.authMethod === 'oauth' && this.oauth?.accessToken && !config.__skipAuth) {
+        config.headers['Authorization'] = `Bearer ${this.oauth.accessToken}`;
+      }
+
+      // Wait for a slot with the site's shared scheduler (taken after any login, which needs one too)
+      config.__release = await this.scheduler.acquire();
+      return config;
+    });
+
     // Add retry interceptor for transient failures
     this.axiosInstance.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        // A simulated dry-run response says nothing about the site
+        if ((response.config as any)?.__dryRun) {
+          return response;
+        }
+        (response.config as any)?.__release?.();
+        this.breaker.recordSuccess();
+        noteUpstreamStatus(response.config?.method, response.status);
+        this.cookieJar.store(response.headers?.['set-cookie']);
+        return response;
+      },
       async (error) => {
         const config = error.config;
+        config?.__release?.();
+        // Errors thrown before the request was sent (open circuit, failed login) have no config
+        if (error instanceof CircuitOpenError || !config) {
+          return Promise.reject(error);
+        }
+        noteUpstreamStatus(config.method, error.response?.status ?? error.code);
+        if (isOutageError(error)) {
+          this.breaker.recordFailure(error.response ? `HTTP ${error.response.status}` : error.code);
+        } else if (error.response) {
+          this.breaker.recordSuccess();
+        }
+        this.cookieJar.store(error?.response?.headers?.['set-cookie']);
+
+        // Re-establish an expired login session or OAuth token once, then replay
+        if (config && !config.__skipAuth && !config.__authRetried && this.isSessionExpired(error)) {
+          config.__authRetried = true;
+          try {
+            if (await this.reauthenticate()) {
+              return this.axiosInstance(config);
+            }
+          } catch (authError: any) {
+            console.error(`ERPNext re-authentication failed: ${authError?.message || 'Unknown error'}`);
+          }
+          return Promise.reject(error);
+        }
 
         if (config && this.shouldAttemptHttpsFallback(error, config)) {
           if (this.activateHttpsFallback()) {
@@ -148,12 +727,40 @@ class ERPNextClient {
                            error.code === 'ENOTFOUND' ||
                            error.code === 'ECONNREFUSED' ||
                            (error.response && (error.response.status >= 500 || error.response.status === 429)));
+
+        // A POST/PATCH that may have been committed is only replayed once we know it was not
+        if (shouldRetry && !this.isRetrySafe(error, config)) {
+          if (typeof config.__checkLanded !== 'function') {
+            return Promise.reject(error);
+          }
+          let landed: any;
+          try {
+            landed = await config.__checkLanded();
+          } catch (checkError: any) {
+            console.error(`Not retrying ${config.method?.toUpperCase()} ${config.url}: could not check whether it was applied (${checkError?.message || 'Unknown error'})`);
+            return Promise.reject(error);
+          }
+          if (landed) {
+            console.error(`${config.method?.toUpperCase()} ${config.url} was applied before the error; not retrying`);
+            noteUpstreamStatus(config.method, 200);
+            return { data: { data: landed }, status: 200, statusText: 'OK', headers: {}, config };
+          }
+        }
         
         if (shouldRetry) {
+          // No point waiting out a backoff once the circuit has opened
+          if (this.breaker.state === 'open') {
+            return Promise.reject(this.breaker.openError());
+          }
           config.retryCount += 1;
           
-          // Exponential backoff with jitter
-          const delay = this.retryDelay * Math.pow(2, config.retryCount - 1) + Math.random() * 1000;
+          // Exponential backoff with jitter, or as long as the site asks for in Retry-After
+          let delay = this.retryDelay * Math.pow(2, config.retryCount - 1) + Math.random() * 1000;
+          const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+          if (retryAfter !== undefined && [429, 503].includes(error.response.status)) {
+            // Pausing the shared scheduler holds back every other request to this site as well
+            delay = Math.max(delay, this.scheduler.pause(retryAfter));
+          }
           
           console.log(`Retrying request (attempt ${config.retryCount}/${this.maxRetries}) after ${Math.round(delay)}ms...`);
           await new Promise(resolve => setTimeout(resolve, delay));
@@ -165,17 +772,247 @@ class ERPNextClient {
       }
     );
     
-    // Configure authentication if credentials provided
-    const apiKey = process.env.ERPNEXT_API_KEY;
-    const apiSecret = process.env.ERPNEXT_API_SECRET;
+    // Configure authentication if credentials provided: API token first,
+    // then OAuth2 bearer, then username/password session login
+    // Explicit credentials (a site profile or a session's own) are never mixed with the
+    // server's ERPNEXT_* ones, which would otherwise win and act as the server's user
+    const explicitCredentials = Boolean(
+      options.apiKey || options.apiSecret || options.username || options.password ||
+      options.oauth?.accessToken || options.oauth?.refreshToken
+    );
+    const env: Record<string, string | undefined> = options.url || explicitCredentials ? {} : process.env;
+    const apiKey = options.apiKey ?? env.ERPNEXT_API_KEY;
+    const apiSecret = options.apiSecret ?? env.ERPNEXT_API_SECRET;
+    const oauth: OAuthState = {
+      clientId: options.oauth?.clientId ?? env.ERPNEXT_OAUTH_CLIENT_ID,
+      clientSecret: options.oauth?.clientSecret ?? env.ERPNEXT_OAUTH_CLIENT_SECRET,
+      accessToken: options.oauth?.accessToken ?? env.ERPNEXT_OAUTH_ACCESS_TOKEN,
+      refreshToken: options.oauth?.refreshToken ?? env.ERPNEXT_OAUTH_REFRESH_TOKEN,
+      tokenFile: options.oauth?.tokenFile ?? env.ERPNEXT_OAUTH_TOKEN_FILE
+    };
+    this.loadOAuthTokenFile(oauth);
+    const username = options.username ?? env.ERPNEXT_USERNAME;
+    const password = options.password ?? env.ERPNEXT_PASSWORD;
 
     if (apiKey && apiSecret) {
       this.axiosInstance.defaults.headers.common['Authorization'] =
         `token ${apiKey}:${apiSecret}`;
+      this.authMethod = 'token';
+      this.authenticated = true;
+    } else if (oauth.accessToken || (oauth.refreshToken && oauth.clientId)) {
+      this.oauth = oauth;
+      this.authMethod = 'oauth';
       this.authenticated = true;
+    } else if (username && password) {
+      this.username = username;
+      this.password = password;
+      this.authMethod = 'password';
+      this.authenticated = true;
+    }
+
+    const warmDocTypes = getWarmDocTypes();
+    if (this.authenticated && warmDocTypes.length && this.metaCache.claimWarming()) {
+      void this.warmDocTypeCache(warmDocTypes);
     }
   }
 
+  // Run a mutating operation, recording it in the audit log
+  private audit<T>(
+    details: { operation: string; doctype?: string; names?: string[] },
+    action: () => Promise<T>,
+    outcome?: (result: T) => { names?: string[]; error?: string }
+  ): Promise<T> {
+    // Dry runs change nothing, so there is nothing to audit
+    if (isDryRun()) {
+      return action();
+    }
+    return audited({ ...details, site: this.baseUrl, user: () => this.getAuditUser() }, action, outcome);
+  }
+
+  // The ERPNext user calls are made as, looked up once for the audit log
+  getAuditUser(): Promise<string | undefined> {
+    if (this.authMethod === 'password') {
+      return Promise.resolve(this.username);
+    }
+    if (!this.auditUser) {
+      this.auditUser = this.getLoggedUser().catch(() => {
+        // Try again on the next audited call
+        this.auditUser = null;
+        return undefined;
+      });
+    }
+    return this.auditUser;
+  }
+
+  // Whether a request changes data: anything but GET, except read-only POSTs (marked idempotent) and logins
+  private isWriteRequest(config: any): boolean {
+    const method = String(config.method || 'get').toLowerCase();
+    return !['get', 'head', 'options'].includes(method) && !config.__idempotent && !config.__skipAuth;
+  }
+
+  // Whether a failed request can be replayed as is: reads and other idempotent methods always,
+  // POST/PATCH only when the server certainly did not process them (rate limited, never connected)
+  private isRetrySafe(error: any, config: any): boolean {
+    const method = String(config.method || 'get').toLowerCase();
+    if (!['post', 'patch'].includes(method) || config.__idempotent) {
+      return true;
+    }
+    return error.code === 'ECONNREFUSED' ||
+      error.code === 'ENOTFOUND' ||
+      error.response?.status === 429;
+  }
+
+  // Log in or refresh the OAuth token before a request when there is no usable session
+  private async ensureAuthenticated(): Promise<void> {
+    if (this.authMethod === 'password') {
+      const sid = this.cookieJar.get('sid');
+      if (!sid || sid === 'Guest') {
+        await this.runAuth(() => this.login());
+      }
+    } else if (this.authMethod === 'oauth' && this.oauth) {
+      const expiring = this.oauth.expiresAt !== undefined && this.oauth.expiresAt - Date.now() < 60 * 1000;
+      if ((!this.oauth.accessToken || expiring) && this.oauth.refreshToken) {
+        await this.runAuth(() => this.refreshOAuthToken());
+      }
+    }
+  }
+
+  // Re-establish auth after an expired-session response; false when there is nothing to renew
+  private async reauthenticate(): Promise<boolean> {
+    if (this.authMethod === 'password') {
+      this.cookieJar.clear();
+      await this.runAuth(() => this.login());
+      return true;
+    }
+    if (this.authMethod === 'oauth' && this.oauth?.refreshToken) {
+      await this.runAuth(() => this.refreshOAuthToken());
+      return true;
+    }
+    return false;
+  }
+
+  // Share one in-flight login/refresh between concurrent requests
+  private async runAuth(action: () => Promise<void>): Promise<void> {
+    if (!this.pendingAuth) {
+      this.pendingAuth = action().finally(() => {
+        this.pendingAuth = null;
+      });
+    }
+    return this.pendingAuth;
+  }
+
+  private async login(): Promise<void> {
+    try {
+      await this.axiosInstance.post('/api/method/login', {
+        usr: this.username,
+        pwd: this.password
+      }, { __skipAuth: true } as any);
+    } catch (error: any) {
+      throw new Error(`Failed to log in to ERPNext as ${this.username}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+
+    const sid = this.cookieJar.get('sid');
+    if (!sid || sid === 'Guest') {
+      throw new Error(`Failed to log in to ERPNext as ${this.username}: no session cookie returned`);
+    }
+  }
+
+  private async refreshOAuthToken(): Promise<void> {
+    const oauth = this.oauth;
+    if (!oauth?.refreshToken) {
+      throw new Error('No OAuth refresh token available');
+    }
+
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: oauth.refreshToken
+    });
+    if (oauth.clientId) {
+      body.set('client_id', oauth.clientId);
+    }
+    if (oauth.clientSecret) {
+      body.set('client_secret', oauth.clientSecret);
+    }
+
+    let data: any;
+    try {
+      const response = await this.axiosInstance.post(
+        '/api/method/frappe.integrations.oauth2.get_token',
+        body.toString(),
+        {
+          __skipAuth: true,
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+        } as any
+      );
+      data = response.data;
+    } catch (error: any) {
+      throw new Error(`Failed to refresh ERPNext OAuth token: ${error?.response?.data?.error_description || error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+
+    if (!data?.access_token) {
+      throw new Error('Failed to refresh ERPNext OAuth token: no access_token in response');
+    }
+
+    oauth.accessToken = data.access_token;
+    // Frappe rotates refresh tokens; the old one is no longer valid
+    if (data.refresh_token) {
+      oauth.refreshToken = data.refresh_token;
+    }
+    oauth.expiresAt = data.expires_in ? Date.now() + Number(data.expires_in) * 1000 : undefined;
+    this.saveOAuthTokenFile(oauth);
+  }
+
+  private loadOAuthTokenFile(oauth: OAuthState): void {
+    if (!oauth.tokenFile || !existsSync(oauth.tokenFile)) {
+      return;
+    }
+    try {
+      const stored = JSON.parse(readFileSync(oauth.tokenFile, 'utf-8'));
+      oauth.accessToken = stored.access_token || oauth.accessToken;
+      oauth.refreshToken = stored.refresh_token || oauth.refreshToken;
+      oauth.expiresAt = stored.expires_at;
+    } catch (error: any) {
+      console.warn(`Failed to read OAuth token file ${oauth.tokenFile}: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  private saveOAuthTokenFile(oauth: OAuthState): void {
+    if (!oauth.tokenFile) {
+      return;
+    }
+    try {
+      writeFileSync(oauth.tokenFile, JSON.stringify({
+        access_token: oauth.accessToken,
+        refresh_token: oauth.refreshToken,
+        expires_at: oauth.expiresAt
+      }, null, 2), { mode: 0o600 });
+    } catch (error: any) {
+      console.warn(`Failed to write OAuth token file ${oauth.tokenFile}: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  // A 401, or a 403 that Frappe reports as an expired/missing session
+  private isSessionExpired(error: any): boolean {
+    if (this.authMethod !== 'password' && this.authMethod !== 'oauth') {
+      return false;
+    }
+
+    const status = error?.response?.status;
+    if (status === 401) {
+      return true;
+    }
+    if (status !== 403) {
+      return false;
+    }
+
+    const data = error.response.data || {};
+    if (['SessionExpired', 'AuthenticationError', 'CSRFTokenError'].includes(data.exc_type)) {
+      return true;
+    }
+    const text = `${data.message || ''} ${data._server_messages || ''} ${data.exc || ''}`.toLowerCase();
+    return text.includes('session expired') || text.includes('not logged in') || text.includes('login to access');
+  }
+
   private shouldAttemptHttpsFallback(error: any, config: any): boolean {
     if (this.httpsFallbackAttempted) {
       return false;
@@ -215,181 +1052,664 @@ class ERPNextClient {
       return true;
     }
 
-    if (message.includes('socket hang up') || message.includes('econnreset')) {
-      return true;
+    if (message.includes('socket hang up') || message.includes('econnreset')) {
+      return true;
+    }
+
+    return false;
+  }
+
+  private activateHttpsFallback(): boolean {
+    const httpsUrl = this.baseUrl.replace(/^http:\/\//i, 'https://');
+
+    if (httpsUrl === this.baseUrl) {
+      return false;
+    }
+
+    console.warn(`Switching ERPNext base URL to HTTPS fallback: ${httpsUrl}`);
+
+    this.baseUrl = httpsUrl;
+    this.httpsFallbackAttempted = true;
+    this.axiosInstance.defaults.baseURL = this.baseUrl;
+
+    return true;
+  }
+
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // Get a document by doctype and name
+  async getDocument(doctype: string, name: string): Promise<any> {
+    try {
+      const response = await this.axiosInstance.get(`/api/resource/${doctype}/${name}`);
+      return response.data.data;
+    } catch (error: any) {
+      throw new Error(`Failed to get ${doctype} ${name}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+  }
+
+  // Get list of documents for a doctype
+  async getDocList(
+    doctype: string,
+    filters?: ListFilters,
+    fields?: string[],
+    limit?: number,
+    options: ListQueryOptions = {}
+  ): Promise<any[]> {
+    try {
+      let params: Record<string, any> = {};
+      
+      if (fields && fields.length) {
+        params['fields'] = JSON.stringify(fields);
+      }
+      
+      if (filters) {
+        params['filters'] = JSON.stringify(filters);
+      }
+
+      if (options.orFilters) {
+        params['or_filters'] = JSON.stringify(options.orFilters);
+      }
+      
+      if (limit) {
+        params['limit_page_length'] = limit;
+      }
+
+      if (options.limitStart) {
+        params['limit_start'] = options.limitStart;
+      }
+
+      if (options.orderBy) {
+        params['order_by'] = options.orderBy;
+      }
+
+      if (options.groupBy) {
+        params['group_by'] = options.groupBy;
+      }
+      
+      const response = await this.axiosInstance.get(`/api/resource/${doctype}`, { params });
+      return response.data.data;
+    } catch (error: any) {
+      throw new Error(`Failed to get ${doctype} list: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+  }
+
+  // Get one page of documents (capped at MAX_PAGE_SIZE), with a cursor for the next page if any
+  async getDocPage(
+    doctype: string,
+    filters?: ListFilters,
+    fields?: string[],
+    options: ListQueryOptions & { pageSize?: number } = {}
+  ): Promise<DocPage> {
+    const pageSize = Math.min(Math.max(1, Math.floor(options.pageSize || DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+    const start = options.limitStart || 0;
+
+    // Ask for one extra row to learn whether another page follows
+    const rows = await this.getDocList(doctype, filters, fields, pageSize + 1, { ...options, limitStart: start });
+    if (rows.length <= pageSize) {
+      return { data: rows };
+    }
+
+    return {
+      data: rows.slice(0, pageSize),
+      nextCursor: encodeListCursor({
+        doctype,
+        filters,
+        fields,
+        orFilters: options.orFilters,
+        orderBy: options.orderBy,
+        groupBy: options.groupBy,
+        start: start + pageSize,
+        pageSize
+      })
+    };
+  }
+
+  // Continue a list query from a cursor returned by getDocPage
+  async continueDocPage(cursor: string, expectedDoctype?: string): Promise<DocPage> {
+    const state = decodeListCursor(cursor);
+    if (expectedDoctype && state.doctype !== expectedDoctype) {
+      throw new Error(`Cursor belongs to ${state.doctype}, not ${expectedDoctype}`);
+    }
+
+    return this.getDocPage(state.doctype, state.filters, state.fields, {
+      orFilters: state.orFilters,
+      orderBy: state.orderBy,
+      groupBy: state.groupBy,
+      limitStart: state.start,
+      pageSize: state.pageSize
+    });
+  }
+
+  // Iterate over every matching document, fetching pages as needed (for internal callers)
+  async *iterateDocList(
+    doctype: string,
+    filters?: ListFilters,
+    fields?: string[],
+    options: ListQueryOptions & { pageSize?: number; maxRows?: number } = {}
+  ): AsyncGenerator<any> {
+    const pageSize = options.pageSize || MAX_PAGE_SIZE;
+    let start = options.limitStart || 0;
+    let yielded = 0;
+
+    while (true) {
+      const rows = await this.getDocList(doctype, filters, fields, pageSize, { ...options, limitStart: start });
+      for (const row of rows) {
+        if (options.maxRows !== undefined && yielded >= options.maxRows) {
+          return;
+        }
+        yield row;
+        yielded++;
+      }
+
+      if (rows.length < pageSize) {
+        return;
+      }
+      start += rows.length;
+    }
+  }
+
+  // Turn any Frappe filter shape into [doctype, field, operator, value] rows
+  private normalizeFilters(doctype: string, filters?: ListFilters): any[][] {
+    if (!filters) {
+      return [];
+    }
+
+    if (Array.isArray(filters)) {
+      return filters.map((filter) => {
+        if (!Array.isArray(filter)) {
+          throw new Error(`Filter ${JSON.stringify(filter)} must be an array like [field, operator, value]`);
+        }
+        if (filter.length === 4) {
+          return filter;
+        }
+        if (filter.length === 3) {
+          return [doctype, ...filter];
+        }
+        if (filter.length === 2) {
+          return [doctype, filter[0], '=', filter[1]];
+        }
+        throw new Error(`Filter ${JSON.stringify(filter)} must be [field, operator, value] or [doctype, field, operator, value]`);
+      });
+    }
+
+    return Object.entries(filters).map(([field, value]) =>
+      Array.isArray(value) && value.length === 2 && typeof value[0] === 'string'
+        ? [doctype, field, value[0], value[1]]
+        : [doctype, field, '=', value]
+    );
+  }
+
+  // Check filter operators and values against the field types in the DocType meta
+  async validateListFilters(doctype: string, filters?: ListFilters, orFilters?: ListFilters): Promise<void> {
+    const rows = [
+      ...this.normalizeFilters(doctype, filters),
+      ...this.normalizeFilters(doctype, orFilters)
+    ];
+    if (rows.length === 0) {
+      return;
+    }
+
+    const problems: string[] = [];
+    const fieldTypes = new Map<string, { types: Map<string, string>; complete: boolean } | null>();
+
+    for (const [rowDoctype, field, rawOperator, value] of rows) {
+      const operator = String(rawOperator).toLowerCase().trim();
+      const label = `${field} ${rawOperator}`;
+
+      if (!FILTER_OPERATORS.includes(operator)) {
+        problems.push(`${label}: unknown operator. Valid operators: ${FILTER_OPERATORS.join(', ')}`);
+        continue;
+      }
+
+      // Field-type checks need the meta; qualified names like `tabX`.field are left to the server
+      if (typeof field !== 'string' || field.includes('.') || field.includes('`')) {
+        continue;
+      }
+
+      if (!fieldTypes.has(rowDoctype)) {
+        const fieldnames = rows
+          .filter((row) => row[0] === rowDoctype)
+          .map((row) => row[1])
+          .filter((name) => typeof name === 'string' && !name.includes('.') && !name.includes('`'));
+        try {
+          fieldTypes.set(rowDoctype, await this.getFieldTypes(rowDoctype, fieldnames));
+        } catch (error: any) {
+          console.warn(`Skipping filter validation for ${rowDoctype}: ${error?.message || 'Unknown error'}`);
+          fieldTypes.set(rowDoctype, null);
+        }
+      }
+
+      const known = fieldTypes.get(rowDoctype);
+      if (!known) {
+        continue;
+      }
+
+      const fieldtype = known.types.get(field) || STANDARD_FIELD_TYPES[field];
+      if (!fieldtype) {
+        // Without the Custom Field lookup an unknown field cannot be ruled out
+        if (known.complete) {
+          problems.push(`${field}: no such field in ${rowDoctype}`);
+        }
+        continue;
+      }
+
+      if (UNFILTERABLE_FIELD_TYPES.includes(fieldtype)) {
+        problems.push(`${field}: ${fieldtype} fields cannot be filtered${fieldtype.startsWith('Table') ? ' – filter on the child DocType with [child_doctype, field, operator, value]' : ''}`);
+        continue;
+      }
+
+      switch (operator) {
+        case 'like':
+        case 'not like':
+          if (!TEXT_FIELD_TYPES.includes(fieldtype)) {
+            problems.push(`${label}: '${operator}' needs a text field, but ${field} is ${fieldtype}`);
+          } else if (typeof value !== 'string') {
+            problems.push(`${label}: value must be a string pattern such as "%abc%"`);
+          }
+          break;
+        case 'in':
+        case 'not in':
+          if (!Array.isArray(value) && typeof value !== 'string') {
+            problems.push(`${label}: value must be a list (or comma-separated string)`);
+          }
+          break;
+        case 'between':
+          if (!RANGE_FIELD_TYPES.includes(fieldtype)) {
+            problems.push(`${label}: 'between' needs a date, time or number field, but ${field} is ${fieldtype}`);
+          } else if (!Array.isArray(value) || value.length !== 2) {
+            problems.push(`${label}: value must be a [from, to] pair`);
+          }
+          break;
+        case 'timespan':
+          if (!['Date', 'Datetime'].includes(fieldtype)) {
+            problems.push(`${label}: 'timespan' needs a Date or Datetime field, but ${field} is ${fieldtype}`);
+          }
+          break;
+        case 'is':
+          if (!['set', 'not set'].includes(String(value).toLowerCase())) {
+            problems.push(`${label}: value must be "set" or "not set"`);
+          }
+          break;
+        case '>':
+        case '<':
+        case '>=':
+        case '<=':
+          if (fieldtype === 'Check') {
+            problems.push(`${label}: comparison operators do not apply to Check fields – use = 0 or = 1`);
+          }
+          break;
+        case 'descendants of':
+        case 'not descendants of':
+        case 'ancestors of':
+        case 'not ancestors of':
+        case 'descendants of (inclusive)':
+          if (fieldtype !== 'Link' && field !== 'name') {
+            problems.push(`${label}: tree operators need a Link field to a tree DocType, but ${field} is ${fieldtype}`);
+          }
+          break;
+      }
+    }
+
+    if (problems.length) {
+      throw new Error(`Invalid filters for ${doctype}:\n- ${problems.join('\n- ')}`);
+    }
+  }
+
+  // Create a new document. With an idempotency key, repeating the call returns the document
+  // the first call created instead of a duplicate.
+  async createDocument(doctype: string, doc: Record<string, any>, idempotencyKey?: string): Promise<any> {
+    return this.audit({ operation: 'create_document', doctype }, async () => {
+      try {
+        // --- Auto-fill or correct required fields for certain core DocTypes ---
+        if (doctype === "Note" && !doc.title) {
+          doc.title = (doc.content || "Untitled").substring(0, 100) || "Untitled";
+        }
+        // --------------------------------------------------------------------
+
+        if (idempotencyKey) {
+          const existing = await this.findIdempotentCreate(doctype, idempotencyKey);
+          if (existing) {
+            return { ...existing, __idempotent_replay: true };
+          }
+        }
+
+        // Tag the document so a retry after a lost response can find it
+        const key = idempotencyKey || randomUUID();
+        const config: any = {};
+        const storesKey = await this.supportsIdempotencyField(doctype);
+        if (storesKey) {
+          doc[IDEMPOTENCY_FIELD] = key;
+          config.__checkLanded = () => this.findIdempotentCreate(doctype, key);
+        }
+
+        const response = await this.axiosInstance.post(`/api/resource/${doctype}`, {
+          data: doc
+        }, config);
+        const created = response.data.data;
+        // A dry run's placeholder name must not be replayed by the real create
+        if (created?.name && !isDryRun() && !(response.config as any)?.__dryRun) {
+          this.rememberIdempotencyKey(key, doctype, created.name);
+        }
+        if (idempotencyKey && !storesKey && created) {
+          // Without the field the key only lives in this process's memory
+          created.__warnings = [
+            `idempotency_key is not stored on the document: ${doctype} has no '${IDEMPOTENCY_FIELD}' field, so a retry after a restart ` +
+            `or from another session will create a duplicate. Add a hidden Data Custom Field named '${IDEMPOTENCY_FIELD}' to ${doctype} to make the key durable.`
+          ];
+        }
+        return created;
+      } catch (error: any) {
+        const enriched = this.enrichError(error);
+
+        const msgLower = String(enriched.message || '').toLowerCase();
+        if (msgLower.includes('mandatory') || msgLower.includes('required')) {
+          enriched.suggestions.push('Ensure all mandatory fields are supplied or use mode="smart".');
+        }
+        if (msgLower.includes('unique') || msgLower.includes('duplicate') || msgLower.includes('exists')) {
+          enriched.suggestions.push('Document with same identifier exists – consider update_document or change "name" value.');
+        }
+        if (msgLower.includes('permission') || enriched.status === 403) {
+          enriched.suggestions.push('Verify API key/secret roles and permissions.');
+        }
+        if (enriched.status === 500) {
+          enriched.suggestions.push('Internal server error – inspect traceback above and ERPNext server logs for root cause.');
+          if (enriched.errorType === 'ValidationError') {
+            enriched.suggestions.push('A ValidationError often indicates missing or incorrect field values.');
+          }
+        }
+
+        throw new Error(`Failed to create ${doctype}: ${JSON.stringify(enriched, null, 2)}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
+  }
+
+  // Update an existing document
+  async updateDocument(doctype: string, name: string, doc: Record<string, any>): Promise<any> {
+    return this.audit({ operation: 'update_document', doctype, names: [name] }, async () => {
+      try {
+        const response = await this.axiosInstance.put(`/api/resource/${doctype}/${name}`, {
+          data: doc
+        });
+        return response.data.data;
+      } catch (error: any) {
+        const enriched = this.enrichError(error);
+
+        const msgLower = String(enriched.message || '').toLowerCase();
+        if (msgLower.includes('mandatory') || msgLower.includes('required')) {
+          enriched.suggestions.push('Ensure all mandatory fields are filled or switch to mode="smart" for auto-fill.');
+        }
+        if (msgLower.includes('unique') || msgLower.includes('duplicate') || msgLower.includes('exists')) {
+          enriched.suggestions.push('Duplicate value detected – confirm unique constraints and existing records.');
+        }
+        if (msgLower.includes('permission') || enriched.status === 403) {
+          enriched.suggestions.push('Check user/API key permissions for updating this DocType.');
+        }
+        if (enriched.status === 500) {
+          enriched.suggestions.push('Internal server error – review traceback and ERPNext logs to debug.');
+          if (enriched.errorType === 'ValidationError') {
+            enriched.suggestions.push('ValidationError indicates data mismatch – verify field values/types.');
+          }
+        }
+
+        throw new Error(`Failed to update ${doctype} ${name}: ${JSON.stringify(enriched, null, 2)}`);
+      }
+    });
+  }
+
+  // Whether documents of this DocType have the idempotency key field (standard or Custom Field).
+  // A failed lookup counts as no field for this create only; the next one looks again.
+  private supportsIdempotencyField(doctype: string): Promise<boolean> {
+    let support = this.idempotencyFieldSupport.get(doctype);
+    if (!support) {
+      support = (async () => {
+        const meta = await this.getDocTypeMeta(doctype);
+        if ((meta.fields || []).some((f: any) => f.fieldname === IDEMPOTENCY_FIELD)) {
+          return true;
+        }
+        const customFields = await this.getDocList('Custom Field', { dt: doctype, fieldname: IDEMPOTENCY_FIELD }, ['name'], 1);
+        return customFields.length > 0;
+      })().catch((error: any) => {
+        this.idempotencyFieldSupport.delete(doctype);
+        console.warn(`Could not check ${doctype} for the ${IDEMPOTENCY_FIELD} field: ${error?.message || 'Unknown error'}`);
+        return false;
+      });
+      this.idempotencyFieldSupport.set(doctype, support);
+    }
+    return support;
+  }
+
+  // The document an earlier create with this key produced, if any (throws when it cannot be checked)
+  private async findIdempotentCreate(doctype: string, key: string): Promise<any | null> {
+    const known = this.idempotencyKeys.get(key);
+    if (known && known.doctype === doctype) {
+      return this.getDocument(doctype, known.name);
+    }
+    if (!(await this.supportsIdempotencyField(doctype))) {
+      return null;
+    }
+    const matches = await this.getDocList(doctype, { [IDEMPOTENCY_FIELD]: key }, ['name'], 1);
+    if (!matches.length) {
+      return null;
+    }
+    this.rememberIdempotencyKey(key, doctype, matches[0].name);
+    return this.getDocument(doctype, matches[0].name);
+  }
+
+  private rememberIdempotencyKey(key: string, doctype: string, name: string): void {
+    this.idempotencyKeys.set(key, { doctype, name });
+    if (this.idempotencyKeys.size > MAX_IDEMPOTENCY_KEYS) {
+      const oldest = this.idempotencyKeys.keys().next().value;
+      if (oldest !== undefined) {
+        this.idempotencyKeys.delete(oldest);
+      }
     }
-
-    return false;
   }
 
-  private activateHttpsFallback(): boolean {
-    const httpsUrl = this.baseUrl.replace(/^http:\/\//i, 'https://');
+  // Pull status, message, exception type, traceback and server messages out of a failed Frappe call
+  private enrichError(error: any): any {
+    const errResp = error?.response || {};
+    const errData = errResp.data || {};
+
+    const enriched: any = {
+      status: errResp.status,
+      statusText: errResp.statusText,
+      message: errData.message || errData.exc || error?.message || 'Unknown error',
+      errorType: errData.exc_type,
+      suggestions: [] as string[]
+    };
 
-    if (httpsUrl === this.baseUrl) {
-      return false;
+    // Extract traceback (first ~5 lines to keep message compact)
+    if (typeof errData.exception === 'string' && errData.exception.includes('Traceback')) {
+      enriched.traceback = errData.exception.split('\n').slice(0, 6).join('\n');
     }
 
-    console.warn(`Switching ERPNext base URL to HTTPS fallback: ${httpsUrl}`);
-
-    this.baseUrl = httpsUrl;
-    this.httpsFallbackAttempted = true;
-    this.axiosInstance.defaults.baseURL = this.baseUrl;
+    // Decode _server_messages if present
+    if (errData._server_messages) {
+      try {
+        const decoded = JSON.parse(errData._server_messages);
+        enriched.serverMessages = decoded;
+        if (!enriched.message && decoded.length) {
+          enriched.message = decoded[0];
+        }
+      } catch {/* ignore JSON parse errors */}
+    }
 
-    return true;
+    return enriched;
   }
 
-  isAuthenticated(): boolean {
-    return this.authenticated;
+  // Throw unless the DocType is submittable (docstatus workflow applies)
+  private async assertSubmittable(doctype: string): Promise<void> {
+    const meta = await this.getDocTypeMeta(doctype);
+    if (!meta?.is_submittable) {
+      throw new Error(`${doctype} is not submittable: its documents have no submit/cancel/amend steps`);
+    }
   }
 
-  // Get a document by doctype and name
-  async getDocument(doctype: string, name: string): Promise<any> {
-    try {
-      const response = await this.axiosInstance.get(`/api/resource/${doctype}/${name}`);
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get ${doctype} ${name}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+  // Throw the enriched details of a failed docstatus change
+  private throwDocstatusError(action: string, doctype: string, name: string, error: any): never {
+    const enriched = this.enrichError(error);
+
+    // Frappe puts the reason (e.g. "Debit To is mandatory") in the server messages
+    const msgLower = [enriched.message, ...(enriched.serverMessages || [])].join(' ').toLowerCase();
+    if (msgLower.includes('mandatory') || msgLower.includes('required')) {
+      enriched.suggestions.push(`Fill in the mandatory fields with update_document, then ${action} again.`);
     }
+    if (msgLower.includes('timestamp') || enriched.errorType === 'TimestampMismatchError') {
+      enriched.suggestions.push('The document changed since it was read – fetch it again and retry.');
+    }
+    if (msgLower.includes('linked') || enriched.errorType === 'LinkExistsError') {
+      enriched.suggestions.push('Cancel the submitted documents that link to this one first.');
+    }
+    if (msgLower.includes('permission') || enriched.status === 403) {
+      enriched.suggestions.push(`Check that the user's role may ${action} this DocType.`);
+    }
+    if (enriched.errorType === 'ValidationError') {
+      enriched.suggestions.push('ValidationError indicates data mismatch – read the server messages above for the failing rule.');
+    }
+
+    throw new Error(`Failed to ${action} ${doctype} ${name}: ${JSON.stringify(enriched, null, 2)}`);
   }
 
-  // Get list of documents for a doctype
-  async getDocList(doctype: string, filters?: Record<string, any>, fields?: string[], limit?: number): Promise<any[]> {
-    try {
-      let params: Record<string, any> = {};
-      
-      if (fields && fields.length) {
-        params['fields'] = JSON.stringify(fields);
-      }
-      
-      if (filters) {
-        params['filters'] = JSON.stringify(filters);
+  // Submit a draft document (docstatus 0 → 1)
+  async submitDocument(doctype: string, name: string): Promise<any> {
+    return this.audit({ operation: 'submit_document', doctype, names: [name] }, async () => {
+      await this.assertSubmittable(doctype);
+      const doc = await this.getDocument(doctype, name);
+      if (doc.docstatus !== 0) {
+        throw new Error(`Cannot submit ${doctype} ${name}: it is ${doc.docstatus === 1 ? 'already submitted' : 'cancelled'} (docstatus ${doc.docstatus})`);
       }
-      
-      if (limit) {
-        params['limit_page_length'] = limit;
+
+      try {
+        const response = await this.axiosInstance.post('/api/method/frappe.client.submit', { doc });
+        return response.data.message;
+      } catch (error: any) {
+        this.throwDocstatusError('submit', doctype, name, error);
       }
-      
-      const response = await this.axiosInstance.get(`/api/resource/${doctype}`, { params });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to get ${doctype} list: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    });
   }
 
-  // Create a new document
-  async createDocument(doctype: string, doc: Record<string, any>): Promise<any> {
-    try {
-      // --- Auto-fill or correct required fields for certain core DocTypes ---
-      if (doctype === "Note" && !doc.title) {
-        doc.title = (doc.content || "Untitled").substring(0, 100) || "Untitled";
+  // Cancel a submitted document (docstatus 1 → 2)
+  async cancelDocument(doctype: string, name: string): Promise<any> {
+    return this.audit({ operation: 'cancel_document', doctype, names: [name] }, async () => {
+      await this.assertSubmittable(doctype);
+      const doc = await this.getDocument(doctype, name);
+      if (doc.docstatus !== 1) {
+        throw new Error(`Cannot cancel ${doctype} ${name}: only submitted documents can be cancelled (docstatus ${doc.docstatus})`);
       }
-      // --------------------------------------------------------------------
-
-      const response = await this.axiosInstance.post(`/api/resource/${doctype}`, {
-        data: doc
-      });
-      return response.data.data;
-    } catch (error: any) {
-      const errResp = error?.response || {};
-      const errData = errResp.data || {};
-
-      const enriched: any = {
-        status: errResp.status,
-        statusText: errResp.statusText,
-        message: errData.message || errData.exc || error?.message || 'Unknown error',
-        errorType: errData.exc_type,
-        suggestions: [] as string[]
-      };
 
-      // Extract traceback (first ~5 lines to keep message compact)
-      if (typeof errData.exception === 'string' && errData.exception.includes('Traceback')) {
-        enriched.traceback = errData.exception.split('\n').slice(0, 6).join('\n');
+      try {
+        await this.axiosInstance.post('/api/method/frappe.client.cancel', { doctype, name });
+      } catch (error: any) {
+        this.throwDocstatusError('cancel', doctype, name, error);
       }
+      // frappe.client.cancel returns nothing, so read back the cancelled document
+      return this.getDocument(doctype, name);
+    });
+  }
 
-      // Decode _server_messages if present
-      if (errData._server_messages) {
-        try {
-          const decoded = JSON.parse(errData._server_messages);
-          enriched.serverMessages = decoded;
-          if (!enriched.message && decoded.length) {
-            enriched.message = decoded[0];
-          }
-        } catch {/* ignore JSON parse errors */}
+  // Amend a cancelled document: a new draft copy with amended_from set (Frappe names it NAME-1, NAME-2, ...)
+  async amendDocument(doctype: string, name: string, overrides: Record<string, any> = {}): Promise<any> {
+    return this.audit({ operation: 'amend_document', doctype, names: [name] }, async () => {
+      await this.assertSubmittable(doctype);
+      const doc = await this.getDocument(doctype, name);
+      if (doc.docstatus !== 2) {
+        throw new Error(`Cannot amend ${doctype} ${name}: only cancelled documents can be amended (docstatus ${doc.docstatus})`);
+      }
+
+      const amended: Record<string, any> = { ...doc, ...overrides, docstatus: 0, amended_from: name };
+      for (const key of ['name', 'owner', 'creation', 'modified', 'modified_by', 'idx']) {
+        delete amended[key];
+      }
+      // Child rows become new rows of the amendment
+      for (const [key, value] of Object.entries(amended)) {
+        if (Array.isArray(value) && !(key in overrides)) {
+          amended[key] = value.map((row: any) => {
+            if (!row || typeof row !== 'object') {
+              return row;
+            }
+            const { name: _name, parent, creation, modified, modified_by, owner, docstatus, ...rest } = row;
+            return rest;
+          });
+        }
       }
 
-      const msgLower = String(enriched.message || '').toLowerCase();
-      if (msgLower.includes('mandatory') || msgLower.includes('required')) {
-        enriched.suggestions.push('Ensure all mandatory fields are supplied or use mode="smart".');
-      }
-      if (msgLower.includes('unique') || msgLower.includes('duplicate') || msgLower.includes('exists')) {
-        enriched.suggestions.push('Document with same identifier exists – consider update_document or change "name" value.');
-      }
-      if (msgLower.includes('permission') || enriched.status === 403) {
-        enriched.suggestions.push('Verify API key/secret roles and permissions.');
-      }
-      if (enriched.status === 500) {
-        enriched.suggestions.push('Internal server error – inspect traceback above and ERPNext server logs for root cause.');
-        if (enriched.errorType === 'ValidationError') {
-          enriched.suggestions.push('A ValidationError often indicates missing or incorrect field values.');
-        }
+      try {
+        const response = await this.axiosInstance.post(`/api/resource/${doctype}`, { data: amended });
+        return response.data.data;
+      } catch (error: any) {
+        this.throwDocstatusError('amend', doctype, name, error);
       }
+    }, (amended) => ({ names: [name, amended?.name] }));
+  }
 
-      throw new Error(`Failed to create ${doctype}: ${JSON.stringify(enriched, null, 2)}`);
+  // Find the active Workflow for a DocType (and the field holding its state)
+  private async getActiveWorkflow(doctype: string): Promise<{ name: string; stateField: string }> {
+    const workflows = await this.getDocList('Workflow', { document_type: doctype, is_active: 1 }, ['name', 'workflow_state_field'], 1);
+    if (!workflows.length) {
+      throw new Error(`${doctype} has no active workflow`);
     }
+    return { name: workflows[0].name, stateField: workflows[0].workflow_state_field || 'workflow_state' };
   }
 
-  // Update an existing document
-  async updateDocument(doctype: string, name: string, doc: Record<string, any>): Promise<any> {
+  // Actions the current user may take from the document's current workflow state
+  async getWorkflowTransitions(doctype: string, name: string): Promise<any> {
+    const workflow = await this.getActiveWorkflow(doctype);
+    const doc = await this.getDocument(doctype, name);
+
     try {
-      const response = await this.axiosInstance.put(`/api/resource/${doctype}/${name}`, {
-        data: doc
-      });
-      return response.data.data;
-    } catch (error: any) {
-      const errResp = error?.response || {};
-      const errData = errResp.data || {};
-
-      const enriched: any = {
-        status: errResp.status,
-        statusText: errResp.statusText,
-        message: errData.message || errData.exc || error?.message || 'Unknown error',
-        errorType: errData.exc_type,
-        suggestions: [] as string[]
+      const response = await this.axiosInstance.post('/api/method/frappe.model.workflow.get_transitions', { doc }, { __idempotent: true } as any);
+      const transitions = (response.data.message || []).map((t: any) => ({
+        action: t.action,
+        next_state: t.next_state,
+        allowed: t.allowed
+      }));
+      return {
+        doctype,
+        name,
+        workflow: workflow.name,
+        workflow_state: doc[workflow.stateField],
+        docstatus: doc.docstatus,
+        transitions
       };
+    } catch (error: any) {
+      const enriched = this.enrichError(error);
+      throw new Error(`Failed to get workflow transitions for ${doctype} ${name}: ${JSON.stringify(enriched, null, 2)}`);
+    }
+  }
 
-      if (typeof errData.exception === 'string' && errData.exception.includes('Traceback')) {
-        enriched.traceback = errData.exception.split('\n').slice(0, 6).join('\n');
-      }
-
-      if (errData._server_messages) {
-        try {
-          const decoded = JSON.parse(errData._server_messages);
-          enriched.serverMessages = decoded;
-          if (!enriched.message && decoded.length) {
-            enriched.message = decoded[0];
-          }
-        } catch {/* ignore */}
+  // Apply a workflow action (e.g. "Approve") to a document
+  async applyWorkflowAction(doctype: string, name: string, action: string): Promise<any> {
+    return this.audit({ operation: 'apply_workflow', doctype, names: [name] }, async () => {
+      const current = await this.getWorkflowTransitions(doctype, name);
+      const actions: string[] = current.transitions.map((t: any) => t.action);
+      if (!actions.includes(action)) {
+        throw new Error(
+          `Action '${action}' is not available for ${doctype} ${name} in state '${current.workflow_state}'. ` +
+          (actions.length ? `Available actions: ${actions.join(', ')}` : 'No actions are available to this user.')
+        );
       }
 
-      const msgLower = String(enriched.message || '').toLowerCase();
-      if (msgLower.includes('mandatory') || msgLower.includes('required')) {
-        enriched.suggestions.push('Ensure all mandatory fields are filled or switch to mode="smart" for auto-fill.');
-      }
-      if (msgLower.includes('unique') || msgLower.includes('duplicate') || msgLower.includes('exists')) {
-        enriched.suggestions.push('Duplicate value detected – confirm unique constraints and existing records.');
-      }
-      if (msgLower.includes('permission') || enriched.status === 403) {
-        enriched.suggestions.push('Check user/API key permissions for updating this DocType.');
-      }
-      if (enriched.status === 500) {
-        enriched.suggestions.push('Internal server error – review traceback and ERPNext logs to debug.');
+      const doc = await this.getDocument(doctype, name);
+      try {
+        const response = await this.axiosInstance.post('/api/method/frappe.model.workflow.apply_workflow', { doc, action });
+        return response.data.message;
+      } catch (error: any) {
+        const enriched = this.enrichError(error);
+        if (enriched.errorType === 'WorkflowPermissionError' || enriched.status === 403) {
+          enriched.suggestions.push('The user lacks the role this transition requires – check the "allowed" role with get_workflow_transitions.');
+        }
         if (enriched.errorType === 'ValidationError') {
-          enriched.suggestions.push('ValidationError indicates data mismatch – verify field values/types.');
+          enriched.suggestions.push('ValidationError indicates data mismatch – the document must pass validation to move to the next state.');
         }
+        throw new Error(`Failed to apply workflow action ${action} to ${doctype} ${name}: ${JSON.stringify(enriched, null, 2)}`);
       }
-
-      throw new Error(`Failed to update ${doctype} ${name}: ${JSON.stringify(enriched, null, 2)}`);
-    }
+    });
   }
 
   // Run a report
@@ -399,7 +1719,7 @@ class ERPNextClient {
       const response = await this.axiosInstance.post(`/api/method/frappe.desk.query_report.run`, {
         report_name: reportName,
         filters: filters || {}
-      });
+      }, { __idempotent: true } as any);
       return response.data.message;
     } catch (error: any) {
       throw new Error(`Failed to run report ${reportName}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
@@ -454,195 +1774,266 @@ class ERPNextClient {
     }
   }
 
+  // Types of a DocType's fields, for checking the named ones. /api/resource/DocType leaves Custom
+  // Fields out, so names the meta lacks are looked up as Custom Fields; `complete` is false when
+  // that lookup failed and a missing name may still be a real field.
+  private async getFieldTypes(doctype: string, fieldnames: string[]): Promise<{ types: Map<string, string>; complete: boolean }> {
+    const meta = await this.getDocTypeMeta(doctype);
+    const types = new Map<string, string>((meta.fields || []).map((f: any) => [f.fieldname, f.fieldtype]));
+    const missing = Array.from(new Set(fieldnames.filter((name) => !types.has(name) && !STANDARD_FIELD_TYPES[name])));
+    if (!missing.length) {
+      return { types, complete: true };
+    }
+    try {
+      const customFields = await this.getDocList('Custom Field', { dt: doctype, fieldname: ['in', missing] }, ['fieldname', 'fieldtype'], missing.length);
+      for (const customField of customFields) {
+        types.set(customField.fieldname, customField.fieldtype);
+      }
+      return { types, complete: true };
+    } catch (error: any) {
+      console.warn(`Could not look up Custom Fields of ${doctype}: ${error?.message || 'Unknown error'}`);
+      return { types, complete: false };
+    }
+  }
+
   // Get DocType metadata including fields (with caching)
   async getDocTypeMeta(doctype: string): Promise<any> {
     try {
       // Check cache first
-      const cacheKey = `doctype_meta_${doctype}`;
-      const cached = this.doctypeCache.get(cacheKey);
-      
-      if (cached && (Date.now() - cached.timestamp < this.cacheTimeout)) {
-        console.log(`Using cached metadata for DocType: ${doctype}`);
-        return cached.data;
+      const fresh = this.metaCache.getFresh(doctype);
+      if (fresh) {
+        return fresh.data;
+      }
+
+      // Past its TTL: still good if the DocType has not been modified since
+      const stale = this.metaCache.getStale(doctype);
+      if (stale?.modified) {
+        const modified = await this.getDocTypeModified(doctype);
+        if (modified === stale.modified) {
+          this.metaCache.markRevalidated(doctype);
+          return stale.data;
+        }
       }
       
-      // Fetch from API if not in cache or expired
+      // Fetch from API if not in cache or changed
       const response = await this.axiosInstance.get(`/api/resource/DocType/${doctype}`);
       const data = response.data.data;
       
       // Update cache
-      this.doctypeCache.set(cacheKey, {
-        data: data,
-        timestamp: Date.now()
-      });
+      this.metaCache.set(doctype, data);
       
       return data;
     } catch (error: any) {
       throw new Error(`Failed to get DocType metadata for ${doctype}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
     }
   }
+
+  // The DocType's modified timestamp (undefined if it cannot be read)
+  private async getDocTypeModified(doctype: string): Promise<string | undefined> {
+    try {
+      const rows = await this.getDocList('DocType', [['name', '=', doctype]], ['modified'], 1);
+      return rows[0]?.modified;
+    } catch {
+      return undefined;
+    }
+  }
   
-  // Clear cache for a specific DocType or all
-  clearDocTypeCache(doctype?: string): void {
-    if (doctype) {
-      this.doctypeCache.delete(`doctype_meta_${doctype}`);
-    } else {
-      this.doctypeCache.clear();
+  // Clear cache for a specific DocType or all; returns how many entries were dropped
+  clearDocTypeCache(doctype?: string): number {
+    return this.metaCache.clear(doctype);
+  }
+
+  getDocTypeCacheStats() {
+    return this.metaCache.stats();
+  }
+
+  // Load the metadata of the given doctypes into the cache ahead of use
+  async warmDocTypeCache(doctypes: string[]): Promise<{ warmed: string[]; failed: Record<string, string> }> {
+    const warmed: string[] = [];
+    const failed: Record<string, string> = {};
+    for (const doctype of doctypes) {
+      try {
+        await this.getDocTypeMeta(doctype);
+        warmed.push(doctype);
+      } catch (error: any) {
+        failed[doctype] = error?.message || 'Unknown error';
+      }
+    }
+    if (Object.keys(failed).length) {
+      console.warn(`Could not warm metadata cache for: ${Object.keys(failed).join(', ')}`);
+    }
+    return { warmed, failed };
+  }
+
+  getCircuitBreakerStats() {
+    return this.breaker.stats();
+  }
+
+  // Send a cheap request to the site (frappe.ping), through the circuit breaker like any other call
+  async pingUpstream(): Promise<{ ok: boolean; latency_ms?: number; error?: string }> {
+    const started = Date.now();
+    try {
+      await this.axiosInstance.get('/api/method/ping', { __skipAuth: true } as any);
+      return { ok: true, latency_ms: Date.now() - started };
+    } catch (error: any) {
+      return { ok: false, error: error?.message || 'Unknown error' };
     }
   }
 
   // Create a new DocType
   async createDocType(doctypeDefinition: DocTypeDefinition): Promise<any> {
-    try {
-      // Prepare the DocType definition with required defaults
-      const doctype = {
-        doctype: "DocType",
-        ...doctypeDefinition,
-        // Set some required defaults if not provided
-        module: doctypeDefinition.module || "Custom",
-        custom: doctypeDefinition.custom !== undefined ? doctypeDefinition.custom : 1,
-        // ERPNext uses 'istable' not 'is_table', handle both for compatibility
-        istable: doctypeDefinition.istable || doctypeDefinition.is_table || 0,
-        is_tree: doctypeDefinition.is_tree || 0,
-        is_submittable: doctypeDefinition.is_submittable || 0,
-        is_child_table: doctypeDefinition.is_child_table || 0,
-        track_changes: doctypeDefinition.track_changes !== undefined ? doctypeDefinition.track_changes : 1,
-        allow_rename: doctypeDefinition.allow_rename !== undefined ? doctypeDefinition.allow_rename : 1,
-        // Ensure fields array exists
-        fields: doctypeDefinition.fields || []
-      };
+    return this.audit({ operation: 'create_doctype', doctype: 'DocType', names: [doctypeDefinition.name] }, async () => {
+      try {
+        // Prepare the DocType definition with required defaults
+        const doctype = {
+          doctype: "DocType",
+          ...doctypeDefinition,
+          // Set some required defaults if not provided
+          module: doctypeDefinition.module || "Custom",
+          custom: doctypeDefinition.custom !== undefined ? doctypeDefinition.custom : 1,
+          // ERPNext uses 'istable' not 'is_table', handle both for compatibility
+          istable: doctypeDefinition.istable || doctypeDefinition.is_table || 0,
+          is_tree: doctypeDefinition.is_tree || 0,
+          is_submittable: doctypeDefinition.is_submittable || 0,
+          is_child_table: doctypeDefinition.is_child_table || 0,
+          track_changes: doctypeDefinition.track_changes !== undefined ? doctypeDefinition.track_changes : 1,
+          allow_rename: doctypeDefinition.allow_rename !== undefined ? doctypeDefinition.allow_rename : 1,
+          // Ensure fields array exists
+          fields: doctypeDefinition.fields || []
+        };
 
-      // Add default fields if not provided (but not for child tables)
-      if ((!doctype.fields || doctype.fields.length === 0) && !doctype.istable && !doctype.is_child_table) {
-        doctype.fields = [
-          {
-            fieldname: "naming_series",
-            label: "Naming Series",
-            fieldtype: "Select",
-            options: `${doctype.name.toUpperCase().replace(/\s+/g, '-')}-`,
-            reqd: 1,
-            default: `${doctype.name.toUpperCase().replace(/\s+/g, '-')}-`
-          }
-        ];
-      }
+        // Add default fields if not provided (but not for child tables)
+        if ((!doctype.fields || doctype.fields.length === 0) && !doctype.istable && !doctype.is_child_table) {
+          doctype.fields = [
+            {
+              fieldname: "naming_series",
+              label: "Naming Series",
+              fieldtype: "Select",
+              options: `${doctype.name.toUpperCase().replace(/\s+/g, '-')}-`,
+              reqd: 1,
+              default: `${doctype.name.toUpperCase().replace(/\s+/g, '-')}-`
+            }
+          ];
+        }
 
-      // If it's a child table, add required parent fields
-      if (doctype.istable || doctype.is_child_table) {
-        const parentFields = [
-          {
-            fieldname: "parent",
-            label: "Parent",
-            fieldtype: "Data",
-            hidden: 1
-          },
-          {
-            fieldname: "parentfield",
-            label: "Parent Field",
-            fieldtype: "Data",
-            hidden: 1
-          },
-          {
-            fieldname: "parenttype",
-            label: "Parent Type",
-            fieldtype: "Data",
-            hidden: 1
-          }
-        ];
+        // If it's a child table, add required parent fields
+        if (doctype.istable || doctype.is_child_table) {
+          const parentFields = [
+            {
+              fieldname: "parent",
+              label: "Parent",
+              fieldtype: "Data",
+              hidden: 1
+            },
+            {
+              fieldname: "parentfield",
+              label: "Parent Field",
+              fieldtype: "Data",
+              hidden: 1
+            },
+            {
+              fieldname: "parenttype",
+              label: "Parent Type",
+              fieldtype: "Data",
+              hidden: 1
+            }
+          ];
         
-        // Add parent fields if they don't exist
-        for (const parentField of parentFields) {
-          if (!doctype.fields.find((f: any) => f.fieldname === parentField.fieldname)) {
-            doctype.fields.unshift(parentField);
+          // Add parent fields if they don't exist
+          for (const parentField of parentFields) {
+            if (!doctype.fields.find((f: any) => f.fieldname === parentField.fieldname)) {
+              doctype.fields.unshift(parentField);
+            }
           }
         }
-      }
 
-      // Create the DocType using the REST API
-      const response = await this.axiosInstance.post('/api/resource/DocType', {
-        data: doctype
-      });
+        // Create the DocType using the REST API
+        const response = await this.axiosInstance.post('/api/resource/DocType', {
+          data: doctype
+        });
 
-      const createdDocType = response.data.data;
+        const createdDocType = response.data.data;
       
-      // Clear cache for this DocType as it's newly created
-      this.clearDocTypeCache(createdDocType.name);
-
-      // Set default permissions for Administrator (RWCD - Read, Write, Create, Delete)
-      try {
-        const adminPermissions = [
-          {
-            role: "Administrator",
-            permlevel: 0,
-            read: 1,
-            write: 1,
-            create: 1,
-            delete: 1,
-            submit: 0,
-            cancel: 0,
-            amend: 0,
-            report: 0,
-            export: 1,
-            share: 1,
-            print: 1,
-            email: 1
-          }
-        ];
+        // Clear cache for this DocType as it's newly created
+        this.clearDocTypeCache(createdDocType.name);
 
-        await this.setPermissions(createdDocType.name, adminPermissions);
-      } catch (permError: any) {
-        console.warn(`Failed to set default permissions for ${createdDocType.name}: ${permError?.message || 'Unknown error'}`);
-        // Don't fail the entire operation if permissions fail
-      }
+        // Set default permissions for Administrator (RWCD - Read, Write, Create, Delete)
+        try {
+          const adminPermissions = [
+            {
+              role: "Administrator",
+              permlevel: 0,
+              read: 1,
+              write: 1,
+              create: 1,
+              delete: 1,
+              submit: 0,
+              cancel: 0,
+              amend: 0,
+              report: 0,
+              export: 1,
+              share: 1,
+              print: 1,
+              email: 1
+            }
+          ];
 
-      return createdDocType;
-    } catch (error: any) {
-      // Enhanced error handling with detailed information
-      const errorDetails: ErrorDetails = {
-        message: error?.response?.data?.message || error?.message || 'Unknown error',
-        status: error?.response?.status,
-        statusText: error?.response?.statusText,
-        data: error?.response?.data,
-        doctypeName: doctypeDefinition.name,
-        fields: doctypeDefinition.fields?.length || 0,
-        suggestions: []
-      };
+          await this.setPermissions(createdDocType.name, adminPermissions);
+        } catch (permError: any) {
+          console.warn(`Failed to set default permissions for ${createdDocType.name}: ${permError?.message || 'Unknown error'}`);
+          // Don't fail the entire operation if permissions fail
+        }
 
-      // Provide specific suggestions based on error type
-      if (error?.response?.status === 400) {
-        errorDetails.suggestions.push("Check if the DocType name is valid and doesn't contain special characters");
-        errorDetails.suggestions.push("Ensure all required fields have proper fieldtypes");
-        errorDetails.suggestions.push("Verify that Link fields reference existing DocTypes");
-        errorDetails.suggestions.push("Check that Table fields reference existing child table DocTypes");
-      } else if (error?.response?.status === 409) {
-        errorDetails.suggestions.push("DocType already exists - try a different name");
-        errorDetails.suggestions.push("Check if the DocType was created in a previous attempt");
-      } else if (error?.response?.status === 403) {
-        errorDetails.suggestions.push("Insufficient permissions - ensure you have Administrator role");
-        errorDetails.suggestions.push("Check if the ERPNext instance allows custom DocType creation");
-      } else if (error?.response?.status === 500) {
-        errorDetails.suggestions.push("Server error - check ERPNext logs for more details");
-        errorDetails.suggestions.push("Verify that all referenced DocTypes exist");
-        errorDetails.suggestions.push("Ensure the module exists or can be created");
-      }
+        return createdDocType;
+      } catch (error: any) {
+        // Enhanced error handling with detailed information
+        const errorDetails: ErrorDetails = {
+          message: error?.response?.data?.message || error?.message || 'Unknown error',
+          status: error?.response?.status,
+          statusText: error?.response?.statusText,
+          data: error?.response?.data,
+          doctypeName: doctypeDefinition.name,
+          fields: doctypeDefinition.fields?.length || 0,
+          suggestions: []
+        };
 
-      // Check for specific field-related errors
-      if (doctypeDefinition.fields) {
-        const linkFields = doctypeDefinition.fields.filter((f: any) => f.fieldtype === 'Link' && f.options);
-        const tableFields = doctypeDefinition.fields.filter((f: any) => f.fieldtype === 'Table' && f.options);
-        
-        if (linkFields.length > 0) {
-          errorDetails.suggestions.push("Ensure all Link fields reference existing DocTypes: " + 
-            linkFields.map((f: any) => `${f.fieldname} -> ${f.options}`).join(', '));
-        }
+        // Provide specific suggestions based on error type
+        if (error?.response?.status === 400) {
+          errorDetails.suggestions.push("Check if the DocType name is valid and doesn't contain special characters");
+          errorDetails.suggestions.push("Ensure all required fields have proper fieldtypes");
+          errorDetails.suggestions.push("Verify that Link fields reference existing DocTypes");
+          errorDetails.suggestions.push("Check that Table fields reference existing child table DocTypes");
+        } else if (error?.response?.status === 409) {
+          errorDetails.suggestions.push("DocType already exists - try a different name");
+          errorDetails.suggestions.push("Check if the DocType was created in a previous attempt");
+        } else if (error?.response?.status === 403) {
+          errorDetails.suggestions.push("Insufficient permissions - ensure you have Administrator role");
+          errorDetails.suggestions.push("Check if the ERPNext instance allows custom DocType creation");
+        } else if (error?.response?.status === 500) {
+          errorDetails.suggestions.push("Server error - check ERPNext logs for more details");
+          errorDetails.suggestions.push("Verify that all referenced DocTypes exist");
+          errorDetails.suggestions.push("Ensure the module exists or can be created");
+        }
+
+        // Check for specific field-related errors
+        if (doctypeDefinition.fields) {
+          const linkFields = doctypeDefinition.fields.filter((f: any) => f.fieldtype === 'Link' && f.options);
+          const tableFields = doctypeDefinition.fields.filter((f: any) => f.fieldtype === 'Table' && f.options);
+        
+          if (linkFields.length > 0) {
+            errorDetails.suggestions.push("Ensure all Link fields reference existing DocTypes: " + 
+              linkFields.map((f: any) => `${f.fieldname} -> ${f.options}`).join(', '));
+          }
         
-        if (tableFields.length > 0) {
-          errorDetails.suggestions.push("Ensure all Table fields reference existing child table DocTypes: " + 
-            tableFields.map((f: any) => `${f.fieldname} -> ${f.options}`).join(', '));
+          if (tableFields.length > 0) {
+            errorDetails.suggestions.push("Ensure all Table fields reference existing child table DocTypes: " + 
+              tableFields.map((f: any) => `${f.fieldname} -> ${f.options}`).join(', '));
+          }
         }
-      }
 
-      throw new Error(`Failed to create DocType '${doctypeDefinition.name}': ${JSON.stringify(errorDetails, null, 2)}`);
-    }
+        throw new Error(`Failed to create DocType '${doctypeDefinition.name}': ${JSON.stringify(errorDetails, null, 2)}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a Child Table DocType specifically
@@ -717,45 +2108,49 @@ class ERPNextClient {
 
   // Add a child table field to an existing DocType
   async addChildTableToDocType(parentDoctype: string, childTableDoctype: string, fieldname: string, label?: string): Promise<any> {
-    try {
-      // Get the parent DocType
-      const parentDoc = await this.getDocTypeMeta(parentDoctype);
+    return this.audit({ operation: 'add_child_table', doctype: 'DocType', names: [parentDoctype] }, async () => {
+      try {
+        // Get the parent DocType
+        const parentDoc = await this.getDocTypeMeta(parentDoctype);
       
-      // Add the child table field
-      const childTableField = {
-        fieldname: fieldname,
-        label: label || fieldname.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-        fieldtype: "Table",
-        options: childTableDoctype,
-        reqd: 0
-      };
+        // Add the child table field
+        const childTableField = {
+          fieldname: fieldname,
+          label: label || fieldname.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+          fieldtype: "Table",
+          options: childTableDoctype,
+          reqd: 0
+        };
 
-      // Add to fields array
-      if (!parentDoc.fields) {
-        parentDoc.fields = [];
-      }
+        // Add to fields array
+        if (!parentDoc.fields) {
+          parentDoc.fields = [];
+        }
       
-      parentDoc.fields.push(childTableField);
+        parentDoc.fields.push(childTableField);
 
-      // Update the parent DocType
-      const response = await this.axiosInstance.put(`/api/resource/DocType/${parentDoctype}`, {
-        data: parentDoc
-      });
+        // Update the parent DocType
+        const response = await this.axiosInstance.put(`/api/resource/DocType/${parentDoctype}`, {
+          data: parentDoc
+        });
 
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to add child table to DocType: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to add child table to DocType: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    });
   }
 
   // Reload DocType after creation (to apply changes)
   async reloadDocType(doctype: string): Promise<any> {
     try {
-      const response = await this.axiosInstance.post(`/api/method/frappe.core.doctype.doctype.doctype.reload_doc`, {
-        doctype: 'DocType',
-        docname: doctype
+      return await this.audit({ operation: 'reload_doctype', doctype: 'DocType', names: [doctype] }, async () => {
+        const response = await this.axiosInstance.post(`/api/method/frappe.core.doctype.doctype.doctype.reload_doc`, {
+          doctype: 'DocType',
+          docname: doctype
+        });
+        return response.data.message;
       });
-      return response.data.message;
     } catch (error: any) {
       console.warn(`Failed to reload DocType ${doctype}: ${error?.message || 'Unknown error'}`);
       // This is not critical, so we don't throw
@@ -922,29 +2317,33 @@ class ERPNextClient {
 
   // Create a new Module
   async createModule(moduleDef: any): Promise<any> {
-    try {
-      // Ensure required defaults so the DocType is writable even in production mode
-      const moduleDoc = {
-        doctype: "Module Def",
-        custom: moduleDef.custom !== undefined ? moduleDef.custom : 1,
-        app_name: moduleDef.app_name || "Custom",
-        ...moduleDef
-      };
-      const response = await this.axiosInstance.post('/api/resource/Module Def', { data: moduleDoc });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Module: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_module', doctype: 'Module Def', names: [moduleDef?.module_name || moduleDef?.name] }, async () => {
+      try {
+        // Ensure required defaults so the DocType is writable even in production mode
+        const moduleDoc = {
+          doctype: "Module Def",
+          custom: moduleDef.custom !== undefined ? moduleDef.custom : 1,
+          app_name: moduleDef.app_name || "Custom",
+          ...moduleDef
+        };
+        const response = await this.axiosInstance.post('/api/resource/Module Def', { data: moduleDoc });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Module: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a new Dashboard
   async createDashboard(dashboardDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Dashboard', { data: dashboardDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Dashboard: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_dashboard', doctype: 'Dashboard', names: [dashboardDef?.dashboard_name || dashboardDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Dashboard', { data: dashboardDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Dashboard: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Smart dashboard creation with automatic chart and card integration
@@ -1571,52 +2970,62 @@ class ERPNextClient {
 
   // Create a new Workflow
   async createWorkflow(workflowDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Workflow', { data: workflowDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Workflow: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_workflow', doctype: 'Workflow', names: [workflowDef?.name || workflowDef?.workflow_name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Workflow', { data: workflowDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Workflow: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a new Server Script
   async createServerScript(scriptDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Server Script', { data: scriptDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Server Script: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_server_script', doctype: 'Server Script', names: [scriptDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Server Script', { data: scriptDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Server Script: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a new Client Script
   async createClientScript(scriptDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Client Script', { data: scriptDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Client Script: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_client_script', doctype: 'Client Script', names: [scriptDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Client Script', { data: scriptDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Client Script: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a new Webhook
   async createWebhook(webhookDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Webhook', { data: webhookDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Webhook: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_webhook', doctype: 'Webhook', names: [webhookDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Webhook', { data: webhookDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Webhook: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a new Hook (Custom App Hook DocType, if available)
   async createHook(hookDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Hook', { data: hookDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Hook: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_hook', doctype: 'Hook', names: [hookDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Hook', { data: hookDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Hook: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Smart report creation with validation and fallback
@@ -1751,42 +3160,50 @@ class ERPNextClient {
 
   // Create a new Report
   async createReport(reportDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Report', { data: reportDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Report: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_report', doctype: 'Report', names: [reportDef?.report_name || reportDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Report', { data: reportDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Report: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a new Chart (Dashboard Chart)
   async createChart(chartDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Dashboard Chart', { data: chartDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Chart: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_chart', doctype: 'Dashboard Chart', names: [chartDef?.chart_name || chartDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Dashboard Chart', { data: chartDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Chart: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Create a new Web Page
   async createWebPage(webPageDef: any): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/resource/Web Page', { data: webPageDef });
-      return response.data.data;
-    } catch (error: any) {
-      throw new Error(`Failed to create Web Page: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'create_web_page', doctype: 'Web Page', names: [webPageDef?.name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/resource/Web Page', { data: webPageDef });
+        return response.data.data;
+      } catch (error: any) {
+        throw new Error(`Failed to create Web Page: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }, (created) => ({ names: [created?.name] }));
   }
 
   // Delete a document
   async deleteDocument(doctype: string, name: string): Promise<any> {
-    try {
-      const response = await this.axiosInstance.delete(`/api/resource/${doctype}/${name}`);
-      return response.data;
-    } catch (error: any) {
-      throw new Error(`Failed to delete ${doctype} ${name}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+    return this.audit({ operation: 'delete_document', doctype, names: [name] }, async () => {
+      try {
+        const response = await this.axiosInstance.delete(`/api/resource/${doctype}/${name}`);
+        return response.data;
+      } catch (error: any) {
+        throw new Error(`Failed to delete ${doctype} ${name}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    });
   }
 
   // Clone a document (fetch, remove unique fields, create new)
@@ -1803,10 +3220,208 @@ class ERPNextClient {
     return this.createDocument(doctype, doc);
   }
 
+  // Count the documents that link to a record, per linking DocType
+  private async countLinkedDocuments(doctype: string, name: string): Promise<Record<string, number>> {
+    const response = await this.axiosInstance.post('/api/method/frappe.desk.form.linked_with.get_linked_docs', { doctype, name }, { __idempotent: true } as any);
+    const counts: Record<string, number> = {};
+    for (const [linkedDoctype, docs] of Object.entries<any>(response.data.message || {})) {
+      counts[linkedDoctype] = Array.isArray(docs) ? docs.length : 0;
+    }
+    return counts;
+  }
+
+  // Rename a document (or merge it into an existing one) and report the linked records that followed
+  async renameDocument(doctype: string, oldName: string, newName: string, merge: boolean = false): Promise<any> {
+    return this.audit({ operation: merge ? 'merge_document' : 'rename_document', doctype, names: [oldName, newName] }, async () => {
+      const meta = await this.getDocTypeMeta(doctype);
+      if (!meta?.allow_rename) {
+        throw new Error(`${doctype} does not allow renaming (enable "Allow Rename" on the DocType first)`);
+      }
+
+      // Linked records are re-pointed by Frappe during the rename, so count them beforehand
+      let linked: Record<string, number> | null = null;
+      try {
+        linked = await this.countLinkedDocuments(doctype, oldName);
+      } catch (error: any) {
+        console.warn(`Could not count records linked to ${doctype} ${oldName}: ${error?.message || 'Unknown error'}`);
+      }
+
+      try {
+        const response = await this.axiosInstance.post('/api/method/frappe.client.rename_doc', {
+          doctype,
+          old_name: oldName,
+          new_name: newName,
+          merge: merge ? 1 : 0
+        });
+        return {
+          doctype,
+          old_name: oldName,
+          new_name: response.data.message || newName,
+          merged: merge,
+          linked_records_updated: linked ? Object.values(linked).reduce((sum, n) => sum + n, 0) : null,
+          linked_by_doctype: linked
+        };
+      } catch (error: any) {
+        const enriched = this.enrichError(error);
+        const msgLower = [enriched.message, ...(enriched.serverMessages || [])].join(' ').toLowerCase();
+        if (msgLower.includes('already exists') && !merge) {
+          enriched.suggestions.push(`${newName} already exists – pass merge=true to merge ${oldName} into it.`);
+        }
+        if (msgLower.includes('does not exist') && merge) {
+          enriched.suggestions.push(`Merging needs an existing target – ${newName} was not found.`);
+        }
+        if (msgLower.includes('permission') || enriched.status === 403) {
+          enriched.suggestions.push('Renaming needs write permission on the DocType (and on every linking DocType).');
+        }
+        throw new Error(`Failed to rename ${doctype} ${oldName}: ${JSON.stringify(enriched, null, 2)}`);
+      }
+    });
+  }
+
+  // Upload a file through /api/method/upload_file, optionally attaching it to a document (and field)
+  async uploadAttachment(upload: AttachmentUpload): Promise<any> {
+    return this.audit({ operation: 'upload_attachment', doctype: upload.doctype || 'File', names: [upload.name!] }, async () => {
+      if (Boolean(upload.content_base64) === Boolean(upload.path)) {
+        throw new Error('Provide exactly one of content_base64 or path');
+      }
+      if ((upload.doctype && !upload.name) || (!upload.doctype && upload.name) || (upload.fieldname && !upload.doctype)) {
+        throw new Error('To attach the file, give both doctype and name (fieldname is optional)');
+      }
+
+      const fileName = upload.file_name || (upload.path ? path.basename(upload.path) : undefined);
+      if (!fileName) {
+        throw new Error('file_name is required when uploading base64 content');
+      }
+
+      if (upload.fieldname) {
+        const meta = await this.getDocTypeMeta(upload.doctype!);
+        const field = (meta.fields || []).find((f: any) => f.fieldname === upload.fieldname);
+        if (!field) {
+          throw new Error(`${upload.doctype} has no field '${upload.fieldname}'`);
+        }
+        if (!['Attach', 'Attach Image'].includes(field.fieldtype)) {
+          throw new Error(`${upload.doctype}.${upload.fieldname} is a ${field.fieldtype} field, not Attach or Attach Image`);
+        }
+      }
+
+      const content = upload.path
+        ? readFileSync(resolveUploadPath(upload.path))
+        : Buffer.from(upload.content_base64!, 'base64');
+
+      const form = new FormData();
+      form.append('file', new Blob([content]), fileName);
+      form.append('is_private', upload.is_private === false ? '0' : '1');
+      if (upload.folder) {
+        form.append('folder', upload.folder);
+      }
+      if (upload.doctype) {
+        form.append('doctype', upload.doctype);
+        form.append('docname', upload.name!);
+      }
+      if (upload.fieldname) {
+        form.append('fieldname', upload.fieldname);
+      }
+
+      let file: any;
+      try {
+        const response = await this.axiosInstance.post('/api/method/upload_file', form, {
+          headers: { 'Content-Type': 'multipart/form-data' }
+        });
+        file = response.data.message;
+      } catch (error: any) {
+        const enriched = this.enrichError(error);
+        const msgLower = [enriched.message, ...(enriched.serverMessages || [])].join(' ').toLowerCase();
+        if (enriched.status === 413) {
+          enriched.suggestions.push('The file is larger than the site allows – check "Max File Size" in System Settings.');
+        }
+        if (msgLower.includes('file type') || msgLower.includes('not allowed')) {
+          enriched.suggestions.push('The file extension is not in the site\'s allowed file types.');
+        }
+        throw new Error(`Failed to upload ${fileName}: ${JSON.stringify(enriched, null, 2)}`);
+      }
+
+      // upload_file links the File to the document; the Attach field still needs the URL
+      if (upload.fieldname && file?.file_url) {
+        await this.updateDocument(upload.doctype!, upload.name!, { [upload.fieldname]: file.file_url });
+      }
+
+      return file;
+    }, (file) => ({ names: [upload.name!, file?.name] }));
+  }
+
+  // Files attached to a document
+  async listAttachments(doctype: string, name: string): Promise<any[]> {
+    const files: any[] = [];
+    const fields = ['name', 'file_name', 'file_url', 'file_size', 'is_private', 'attached_to_field', 'owner', 'creation'];
+    for await (const file of this.iterateDocList('File', { attached_to_doctype: doctype, attached_to_name: name }, fields, { orderBy: 'creation asc' })) {
+      files.push(file);
+    }
+    return files;
+  }
+
+  // Download a file by its File record name or file URL
+  async downloadAttachment(file: { name?: string; file_url?: string }): Promise<{ uri: string; file_name: string; mimeType: string; blob: string; size: number }> {
+    let fileUrl = file.file_url;
+    let fileName: string | undefined;
+    if (!fileUrl) {
+      if (!file.name) {
+        throw new Error('Provide the File record name or the file_url');
+      }
+      const record = await this.getDocument('File', file.name);
+      fileUrl = record.file_url;
+      fileName = record.file_name;
+      if (!fileUrl) {
+        throw new Error(`File ${file.name} has no file_url`);
+      }
+    }
+
+    // Files may live off-site; only fetch URLs on this ERPNext site so credentials are not sent elsewhere
+    const url = new URL(fileUrl, this.baseUrl);
+    if (url.origin !== new URL(this.baseUrl).origin) {
+      throw new Error(`File ${fileUrl} is not stored on this ERPNext site`);
+    }
+
+    try {
+      const response = await this.axiosInstance.get(url.pathname + url.search, {
+        responseType: 'arraybuffer',
+        maxContentLength: MAX_ATTACHMENT_BYTES,
+        headers: { Accept: '*/*' }
+      });
+      const content = Buffer.from(response.data);
+      return {
+        uri: url.toString(),
+        file_name: fileName || decodeURIComponent(path.basename(url.pathname)),
+        mimeType: String(response.headers['content-type'] || 'application/octet-stream').split(';')[0],
+        blob: content.toString('base64'),
+        size: content.length
+      };
+    } catch (error: any) {
+      if (String(error?.message || '').includes('maxContentLength')) {
+        throw new Error(`File ${fileUrl} is larger than ${MAX_ATTACHMENT_BYTES} bytes (ERPNEXT_MAX_ATTACHMENT_BYTES)`);
+      }
+      throw new Error(`Failed to download ${fileUrl}: ${error?.response?.status || ''} ${error?.message || 'Unknown error'}`.trim());
+    }
+  }
+
   // Export documents (as JSON)
-  async exportDocuments(doctype: string, filters?: Record<string, any>): Promise<any> {
-    const docs = await this.getDocList(doctype, filters);
-    return JSON.stringify(docs, null, 2);
+  // Pages through every match, up to maxRows (reports whether the cap cut the export short)
+  async exportDocuments(
+    doctype: string,
+    filters?: ListFilters,
+    requestedRows?: number
+  ): Promise<{ json: string; count: number; truncated: boolean; maxRows: number }> {
+    // Callers may ask for fewer rows than MAX_EXPORT_ROWS, never more
+    const maxRows = Math.max(1, Math.min(Math.floor(Number(requestedRows) || MAX_EXPORT_ROWS), MAX_EXPORT_ROWS));
+    const docs: any[] = [];
+    for await (const doc of this.iterateDocList(doctype, filters, ['*'], { maxRows: maxRows + 1 })) {
+      docs.push(doc);
+    }
+
+    const truncated = docs.length > maxRows;
+    if (truncated) {
+      docs.length = maxRows;
+    }
+    return { json: JSON.stringify(docs, null, 2), count: docs.length, truncated, maxRows };
   }
 
   // Import documents (from JSON)
@@ -1868,11 +3483,6 @@ class ERPNextClient {
           }
         }
       }
-      
-      // Add a small delay between batches to avoid rate limiting
-      if (i + batchSize < docs.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
     }
     
     return results;
@@ -2024,11 +3634,6 @@ class ERPNextClient {
           }
         }
       }
-      
-      // Add a small delay between batches
-      if (i + batchSize < updates.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
     }
     
     return results;
@@ -2101,20 +3706,198 @@ class ERPNextClient {
           }
         }
       }
-      
-      // Add a small delay between batches
-      if (i + batchSize < names.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
     }
     
     return results;
   }
 
   // Search documents (advanced filtering)
-  async searchDocuments(doctype: string, query: Record<string, any>): Promise<any[]> {
-    // For now, use filters as query
-    return this.getDocList(doctype, query);
+  // `query` is either a plain filter object (legacy) or a structured query:
+  // { filters, or_filters, fields, order_by, group_by, limit, limit_start, text }
+  async searchDocuments(doctype: string, query: Record<string, any>): Promise<DocPage> {
+    const queryKeys = ['filters', 'or_filters', 'fields', 'order_by', 'group_by', 'limit', 'limit_start', 'text'];
+    const structured = query && !Array.isArray(query) && Object.keys(query).some((key) => queryKeys.includes(key));
+    const q = structured ? query : { filters: query };
+
+    let orFilters: ListFilters | undefined = q.or_filters;
+
+    // Free-text search: match the text against the name, title and search fields
+    if (q.text) {
+      if (orFilters) {
+        throw new Error('Use either text or or_filters, not both');
+      }
+      let searchFields = ['name'];
+      try {
+        const meta = await this.getDocTypeMeta(doctype);
+        const configured = String(meta.search_fields || '')
+          .split(',')
+          .map((f: string) => f.trim())
+          .filter(Boolean);
+        searchFields = Array.from(new Set(['name', meta.title_field, ...configured].filter(Boolean)));
+      } catch (error: any) {
+        console.warn(`Searching ${doctype} by name only: ${error?.message || 'Unknown error'}`);
+      }
+      orFilters = searchFields.map((field) => [field, 'like', `%${q.text}%`]);
+    }
+
+    await this.validateListFilters(doctype, q.filters, orFilters);
+
+    return this.getDocPage(doctype, q.filters, q.fields, {
+      limitStart: q.limit_start,
+      orderBy: q.order_by,
+      orFilters,
+      groupBy: q.group_by,
+      pageSize: q.limit
+    });
+  }
+
+  // Count/sum/avg/min/max over matching documents, optionally grouped; returns table columns and rows
+  async aggregateDocuments(
+    doctype: string,
+    metrics: AggregateMetric[] = [{ function: 'count' }],
+    options: { filters?: ListFilters; orFilters?: ListFilters; groupBy?: string[]; orderBy?: string; limit?: number } = {}
+  ): Promise<{ columns: string[]; rows: any[][] }> {
+    const groupBy = options.groupBy || [];
+    if (!metrics.length) {
+      throw new Error('At least one metric is required');
+    }
+
+    const { types, complete } = await this.getFieldTypes(doctype, [
+      ...groupBy,
+      ...metrics.map((metric) => metric.field).filter((field): field is string => Boolean(field))
+    ]);
+    const typeOf = (field: string) => types.get(field) || STANDARD_FIELD_TYPES[field];
+
+    // Fields that cannot be found are only rejected when the Custom Field lookup worked
+    const problems: string[] = [];
+    for (const field of groupBy) {
+      if (!typeOf(field)) {
+        if (complete) {
+          problems.push(`group_by ${field}: no such field in ${doctype}`);
+        }
+      } else if (UNFILTERABLE_FIELD_TYPES.includes(typeOf(field))) {
+        problems.push(`group_by ${field}: ${typeOf(field)} fields cannot be grouped`);
+      }
+    }
+    for (const metric of metrics) {
+      if (!AGGREGATE_FUNCTIONS.includes(metric.function)) {
+        problems.push(`${metric.function}: unknown function (use ${AGGREGATE_FUNCTIONS.join(', ')})`);
+        continue;
+      }
+      if (metric.function === 'count' && !metric.field) {
+        continue;
+      }
+      if (!metric.field) {
+        problems.push(`${metric.function}: a field is required`);
+      } else if (!typeOf(metric.field)) {
+        if (complete) {
+          problems.push(`${metric.function}(${metric.field}): no such field in ${doctype}`);
+        }
+      } else if (['sum', 'avg'].includes(metric.function) && !NUMERIC_FIELD_TYPES.includes(typeOf(metric.field))) {
+        problems.push(`${metric.function}(${metric.field}): needs a number field, but ${metric.field} is ${typeOf(metric.field)}`);
+      }
+    }
+    if (problems.length) {
+      throw new Error(`Invalid aggregation for ${doctype}:\n- ${problems.join('\n- ')}`);
+    }
+
+    await this.validateListFilters(doctype, options.filters, options.orFilters);
+
+    // A plain count needs no grouping query
+    if (!groupBy.length && metrics.length === 1 && metrics[0].function === 'count' && !metrics[0].field && !options.orFilters) {
+      try {
+        const response = await this.axiosInstance.get('/api/method/frappe.client.get_count', {
+          params: { doctype, filters: options.filters ? JSON.stringify(options.filters) : undefined }
+        });
+        return { columns: ['count'], rows: [[response.data.message]] };
+      } catch (error: any) {
+        throw new Error(`Failed to count ${doctype}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    }
+
+    const aliases = metrics.map((m) => (m.field ? `${m.function}_${m.field}` : m.function));
+    const fields = [
+      ...groupBy,
+      ...metrics.map((m, i) => `${m.function}(${m.field || '*'}) as ${aliases[i]}`)
+    ];
+
+    try {
+      const response = await this.axiosInstance.post('/api/method/frappe.desk.reportview.get', {
+        doctype,
+        fields: JSON.stringify(fields),
+        filters: JSON.stringify(options.filters || []),
+        or_filters: options.orFilters ? JSON.stringify(options.orFilters) : undefined,
+        group_by: groupBy.length ? groupBy.join(', ') : undefined,
+        order_by: options.orderBy || (groupBy.length ? `${aliases[0]} desc` : undefined),
+        start: 0,
+        page_length: options.limit || 100
+      }, { __idempotent: true } as any);
+
+      const message = response.data.message || {};
+      const columns = [...groupBy, ...aliases];
+      // reportview.get answers in compressed { keys, values } form
+      const rows: any[][] = Array.isArray(message.values)
+        ? message.values
+        : (Array.isArray(message) ? message : []).map((row: any) => columns.map((c) => row[c]));
+      return { columns, rows };
+    } catch (error: any) {
+      throw new Error(`Failed to aggregate ${doctype}: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+  }
+
+  // Find the documents a human-readable value (e.g. "Acme Corp") may refer to, best match first
+  async resolveLink(doctype: string, text: string, limit: number = 10): Promise<LinkCandidate[]> {
+    let results: any[];
+    try {
+      const response = await this.axiosInstance.get('/api/method/frappe.desk.search.search_link', {
+        params: { doctype, txt: text, page_length: limit }
+      });
+      // Newer Frappe returns the results in message, older versions in results
+      results = response.data.message || response.data.results || [];
+    } catch (error: any) {
+      throw new Error(`Failed to search ${doctype} for "${text}": ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+
+    if (!results.length) {
+      return [];
+    }
+
+    // Look up title fields so callers see "Acme Corp" next to CUST-00042
+    const titles = new Map<string, string>();
+    try {
+      const meta = await this.getDocTypeMeta(doctype);
+      const titleField = meta.title_field && meta.title_field !== 'name' ? meta.title_field : null;
+      if (titleField) {
+        const rows = await this.getDocList(doctype, [['name', 'in', results.map((r: any) => r.value)]], ['name', titleField], results.length);
+        for (const row of rows) {
+          if (row[titleField]) {
+            titles.set(row.name, String(row[titleField]));
+          }
+        }
+      }
+    } catch (error: any) {
+      console.warn(`Resolving ${doctype} links without titles: ${error?.message || 'Unknown error'}`);
+    }
+
+    const needle = text.trim().toLowerCase();
+    const rank = { exact_name: 0, exact_title: 1, prefix: 2, partial: 3 };
+    const candidates: LinkCandidate[] = results.map((r: any) => {
+      const name = String(r.value);
+      const title = titles.get(name) || r.label || undefined;
+      let match: LinkCandidate['match'] = 'partial';
+      if (name.toLowerCase() === needle) {
+        match = 'exact_name';
+      } else if (title && title.toLowerCase() === needle) {
+        match = 'exact_title';
+      } else if (name.toLowerCase().startsWith(needle) || (title && title.toLowerCase().startsWith(needle))) {
+        match = 'prefix';
+      }
+      const description = r.description ? htmlToText(r.description, 200) : undefined;
+      return { name, title, description: description !== title ? description : undefined, match };
+    });
+
+    // Stable sort keeps search_link's own relevance order within each match class
+    return candidates.sort((a, b) => rank[a.match] - rank[b.match]);
   }
 
   // Permissions (get/set/share)
@@ -2122,77 +3905,79 @@ class ERPNextClient {
     return this.getDocTypeMeta(doctype); // Permissions are part of meta
   }
   async setPermissions(doctype: string, perms: any[]): Promise<any> {
-    const results: any[] = [];
+    return this.audit({ operation: 'set_permissions', doctype, names: [doctype] }, async () => {
+      const results: any[] = [];
     
-    try {
-      // First, get the current DocType meta
-      const meta = await this.getDocTypeMeta(doctype);
-      
-      // Update the permissions in the meta
-      if (!meta.permissions) {
-        meta.permissions = [];
-      }
+      try {
+        // First, get the current DocType meta
+        const meta = await this.getDocTypeMeta(doctype);
       
-      // Add or update permissions
-      for (const perm of perms) {
-        const existingIndex = meta.permissions.findIndex((p: any) => p.role === perm.role);
-        
-        if (existingIndex >= 0) {
-          // Update existing permission
-          meta.permissions[existingIndex] = {
-            ...meta.permissions[existingIndex],
-            ...perm
-          };
-        } else {
-          // Add new permission
-          meta.permissions.push(perm);
+        // Update the permissions in the meta
+        if (!meta.permissions) {
+          meta.permissions = [];
         }
-      }
       
-      // Update the DocType meta
-      const response = await this.axiosInstance.put(`/api/resource/DocType/${doctype}`, {
-        permissions: meta.permissions
-      });
-      
-      // Reload the DocType to apply changes
-      await this.reloadDocType(doctype);
-      
-      results.push({
-        success: true,
-        message: `Permissions updated for ${doctype}`,
-        permissions: meta.permissions
-      });
+        // Add or update permissions
+        for (const perm of perms) {
+          const existingIndex = meta.permissions.findIndex((p: any) => p.role === perm.role);
+        
+          if (existingIndex >= 0) {
+            // Update existing permission
+            meta.permissions[existingIndex] = {
+              ...meta.permissions[existingIndex],
+              ...perm
+            };
+          } else {
+            // Add new permission
+            meta.permissions.push(perm);
+          }
+        }
       
-    } catch (error: any) {
-      // Fallback: try alternative approach using DocType update
-      try {
+        // Update the DocType meta
         const response = await this.axiosInstance.put(`/api/resource/DocType/${doctype}`, {
-          permissions: perms
+          permissions: meta.permissions
         });
-        
+      
+        // Reload the DocType to apply changes
         await this.reloadDocType(doctype);
-        
+      
         results.push({
           success: true,
-          message: `Permissions set for ${doctype} using fallback method`,
-          permissions: perms
+          message: `Permissions updated for ${doctype}`,
+          permissions: meta.permissions
         });
+      
+      } catch (error: any) {
+        // Fallback: try alternative approach using DocType update
+        try {
+          const response = await this.axiosInstance.put(`/api/resource/DocType/${doctype}`, {
+            permissions: perms
+          });
         
-      } catch (fallbackError: any) {
-        results.push({
-          success: false,
-          error: `Failed to set permissions: ${fallbackError?.response?.data?.message || fallbackError?.message || 'Unknown error'}`,
-          suggestions: [
-            'Ensure you have Administrator role',
-            'Check if the DocType exists and is accessible',
-            'Verify you have permission to modify DocType meta',
-            'Try using the ERPNext UI to set permissions manually'
-          ]
-        });
+          await this.reloadDocType(doctype);
+        
+          results.push({
+            success: true,
+            message: `Permissions set for ${doctype} using fallback method`,
+            permissions: perms
+          });
+        
+        } catch (fallbackError: any) {
+          results.push({
+            success: false,
+            error: `Failed to set permissions: ${fallbackError?.response?.data?.message || fallbackError?.message || 'Unknown error'}`,
+            suggestions: [
+              'Ensure you have Administrator role',
+              'Check if the DocType exists and is accessible',
+              'Verify you have permission to modify DocType meta',
+              'Try using the ERPNext UI to set permissions manually'
+            ]
+          });
+        }
       }
-    }
     
-    return results;
+      return results;
+    }, (results) => ({ error: results.find((r: any) => !r.success)?.error }));
   }
   async shareDocument(doctype: string, name: string, user: string, permlevel: number): Promise<any> {
     // Frappe has a Share DocType
@@ -2225,15 +4010,180 @@ class ERPNextClient {
     return { valid: true };
   }
 
-  // Preview script (dry-run, only syntax check here)
-  async previewScript(def: any): Promise<any> {
-    try {
-      // Only check for syntax errors (very basic, not real execution)
-      new Function(def.script);
-      return { valid: true, message: 'No syntax errors' };
-    } catch (e: any) {
-      return { valid: false, error: e.message };
+  // Preview script (dry-run, only syntax check here)
+  async previewScript(def: any): Promise<any> {
+    try {
+      // Only check for syntax errors (very basic, not real execution)
+      new Function(def.script);
+      return { valid: true, message: 'No syntax errors' };
+    } catch (e: any) {
+      return { valid: false, error: e.message };
+    }
+  }
+
+  // Add a comment to a document's timeline
+  async addComment(doctype: string, name: string, content: string): Promise<any> {
+    return this.createDocument('Comment', {
+      comment_type: 'Comment',
+      reference_doctype: doctype,
+      reference_name: name,
+      content
+    });
+  }
+
+  // Comments, emails, field changes and assignments of a document, oldest first
+  async getTimeline(doctype: string, name: string, maxPerSource: number = 500): Promise<{ entries: TimelineEntry[]; warnings: string[] }> {
+    const collect = async (sourceDoctype: string, filters: Record<string, any>, fields: string[]) => {
+      const rows: any[] = [];
+      for await (const row of this.iterateDocList(sourceDoctype, filters, fields, { orderBy: 'creation asc', maxRows: maxPerSource })) {
+        rows.push(row);
+      }
+      return rows;
+    };
+
+    const sources = await Promise.allSettled([
+      collect('Comment', { reference_doctype: doctype, reference_name: name }, ['name', 'comment_type', 'comment_email', 'owner', 'content', 'creation']),
+      collect('Communication', { reference_doctype: doctype, reference_name: name }, ['name', 'communication_type', 'sent_or_received', 'sender', 'recipients', 'subject', 'content', 'communication_date', 'creation']),
+      collect('Version', { ref_doctype: doctype, docname: name }, ['name', 'owner', 'data', 'creation']),
+      collect('ToDo', { reference_type: doctype, reference_name: name }, ['name', 'allocated_to', 'assigned_by', 'status', 'date', 'description', 'creation', 'modified'])
+    ]);
+
+    const warnings: string[] = [];
+    const [comments, communications, versions, todos] = sources.map((result, i) => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+      warnings.push(`${['Comment', 'Communication', 'Version', 'ToDo'][i]}: ${result.reason?.message || 'Unknown error'}`);
+      return [];
+    });
+
+    const entries: TimelineEntry[] = [];
+
+    for (const c of comments) {
+      if (ASSIGNMENT_COMMENT_TYPES.includes(c.comment_type)) {
+        continue;
+      }
+      entries.push({
+        timestamp: c.creation,
+        type: c.comment_type === 'Comment' ? 'comment' : 'info',
+        by: c.comment_email || c.owner,
+        summary: c.comment_type === 'Comment' ? htmlToText(c.content) : `${c.comment_type}: ${htmlToText(c.content)}`,
+        source: { doctype: 'Comment', name: c.name }
+      });
+    }
+
+    for (const m of communications) {
+      const direction = m.sent_or_received === 'Received' ? `from ${m.sender}` : `to ${m.recipients}`;
+      entries.push({
+        timestamp: m.communication_date || m.creation,
+        type: 'communication',
+        by: m.sender,
+        summary: `${m.communication_type || 'Communication'} ${direction}: ${m.subject || '(no subject)'} – ${htmlToText(m.content, 300)}`,
+        source: { doctype: 'Communication', name: m.name }
+      });
+    }
+
+    for (const v of versions) {
+      entries.push({
+        timestamp: v.creation,
+        type: 'change',
+        by: v.owner,
+        summary: summarizeVersion(v.data),
+        source: { doctype: 'Version', name: v.name }
+      });
+    }
+
+    for (const t of todos) {
+      const details = [t.date ? `due ${t.date}` : '', htmlToText(t.description, 200)].filter(Boolean).join(', ');
+      entries.push({
+        timestamp: t.creation,
+        type: 'assignment',
+        by: t.assigned_by,
+        summary: `assigned to ${t.allocated_to}${details ? ` (${details})` : ''}`,
+        source: { doctype: 'ToDo', name: t.name }
+      });
+      if (t.status === 'Closed' || t.status === 'Cancelled') {
+        entries.push({
+          timestamp: t.modified,
+          type: 'assignment',
+          summary: `assignment of ${t.allocated_to} ${t.status === 'Closed' ? 'completed' : 'cancelled'}`,
+          source: { doctype: 'ToDo', name: t.name }
+        });
+      }
+    }
+
+    entries.sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)));
+    return { entries, warnings };
+  }
+
+  // The user this client is logged in as
+  async getLoggedUser(): Promise<string> {
+    try {
+      const response = await this.axiosInstance.get('/api/method/frappe.auth.get_logged_user');
+      return response.data.message;
+    } catch (error: any) {
+      throw new Error(`Failed to get the logged-in user: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+    }
+  }
+
+  // Assign a document to users (creates their ToDos and notifies them)
+  async assignDocument(
+    doctype: string,
+    name: string,
+    users: string[],
+    options: { date?: string; description?: string; priority?: string } = {}
+  ): Promise<any> {
+    return this.audit({ operation: 'assign_document', doctype, names: [name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/method/frappe.desk.form.assign_to.add', {
+          doctype,
+          name,
+          assign_to: JSON.stringify(users),
+          date: options.date,
+          description: options.description,
+          priority: options.priority
+        });
+        return response.data.message;
+      } catch (error: any) {
+        const enriched = this.enrichError(error);
+        const msgLower = [enriched.message, ...(enriched.serverMessages || [])].join(' ').toLowerCase();
+        if (msgLower.includes('already')) {
+          enriched.suggestions.push('The user already has an open assignment on this document.');
+        }
+        if (msgLower.includes('not allowed') || msgLower.includes('permission') || enriched.status === 403) {
+          enriched.suggestions.push('Each assignee needs read permission on the document.');
+        }
+        throw new Error(`Failed to assign ${doctype} ${name}: ${JSON.stringify(enriched, null, 2)}`);
+      }
+    });
+  }
+
+  // Remove a user's assignment from a document (cancels their ToDo)
+  async removeAssignment(doctype: string, name: string, user: string): Promise<any> {
+    return this.audit({ operation: 'remove_assignment', doctype, names: [name] }, async () => {
+      try {
+        const response = await this.axiosInstance.post('/api/method/frappe.desk.form.assign_to.remove', {
+          doctype,
+          name,
+          assign_to: user
+        });
+        return response.data.message;
+      } catch (error: any) {
+        const enriched = this.enrichError(error);
+        throw new Error(`Failed to remove ${user}'s assignment from ${doctype} ${name}: ${JSON.stringify(enriched, null, 2)}`);
+      }
+    });
+  }
+
+  // A user's ToDos across all doctypes (the logged-in user when none is given), earliest due date first
+  async getUserTodos(user?: string, status: string = 'Open', maxRows: number = MAX_EXPORT_ROWS): Promise<any[]> {
+    const allocatedTo = user || await this.getLoggedUser();
+    const todos: any[] = [];
+    const fields = ['name', 'reference_type', 'reference_name', 'description', 'date', 'priority', 'status', 'assigned_by', 'creation'];
+    for await (const todo of this.iterateDocList('ToDo', { allocated_to: allocatedTo, status }, fields, { orderBy: 'date asc', maxRows })) {
+      todos.push({ ...todo, description: htmlToText(todo.description, 300) });
     }
+    return todos;
   }
 
   // Versioning/history (if supported)
@@ -2242,23 +4192,25 @@ class ERPNextClient {
     return this.getDocList('Version', { ref_doctype: doctype, docname: name });
   }
   async rollbackDocument(doctype: string, name: string, version_id: string): Promise<any> {
-    try {
-      const response = await this.axiosInstance.post('/api/method/frappe.desk.version.rollback', {
-        doc_type: doctype,
-        docname: name,
-        version: version_id
-      });
-      return response.data.message;
-    } catch (error: any) {
-      // Fallback – attempt naive diff-based rollback
+    return this.audit({ operation: 'rollback_document', doctype, names: [name] }, async () => {
       try {
-        const version = await this.getDocument('Version', version_id);
-        if (version && version.data) {
-          return this.updateDocument(doctype, name, JSON.parse(version.data));
-        }
-      } catch { /* ignore */ }
-      throw new Error(`Rollback failed: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
-    }
+        const response = await this.axiosInstance.post('/api/method/frappe.desk.version.rollback', {
+          doc_type: doctype,
+          docname: name,
+          version: version_id
+        });
+        return response.data.message;
+      } catch (error: any) {
+        // Fallback – attempt naive diff-based rollback
+        try {
+          const version = await this.getDocument('Version', version_id);
+          if (version && version.data) {
+            return this.updateDocument(doctype, name, JSON.parse(version.data));
+          }
+        } catch { /* ignore */ }
+        throw new Error(`Rollback failed: ${error?.response?.data?.message || error?.message || 'Unknown error'}`);
+      }
+    });
   }
 
   // Scaffolding (simulate, return structure)
@@ -2496,33 +4448,37 @@ class ERPNextClient {
   async createSmartDocument(
     doctype: string,
     doc: Record<string, any>,
-    autoFillDefaults: boolean = true
+    autoFillDefaults: boolean = true,
+    idempotencyKey?: string
   ): Promise<any> {
     const warnings: string[] = [];
+    const valueErrors: string[] = [];
     try {
       const meta = await this.getDocTypeMeta(doctype);
       if (meta && Array.isArray(meta.fields)) {
-        const requiredFields = meta.fields.filter((f: any) => f.reqd);
-        for (const field of requiredFields) {
-          const val = doc[field.fieldname];
-          if (val === undefined || val === null || val === '') {
-            if (autoFillDefaults && field.default !== undefined && field.default !== null && field.default !== '') {
-              doc[field.fieldname] = field.default;
-              warnings.push(`Auto-filled default for missing required field '${field.fieldname}'`);
-            } else {
-              warnings.push(`Missing required field '${field.fieldname}'`);
-            }
-          }
-        }
+        await this.coerceFieldValues(meta, doc, '', warnings, valueErrors);
+        this.checkRequiredFields(meta, doc, '', warnings, autoFillDefaults);
+        await this.checkChildRows(meta, doc, '', warnings, valueErrors, autoFillDefaults);
       }
     } catch (metaErr: any) {
       warnings.push(`Could not validate required fields: ${metaErr?.message || 'Unknown error'}`);
     }
+    if (valueErrors.length) {
+      throw new Error(`Invalid values for ${doctype}:\n- ${valueErrors.join('\n- ')}`);
+    }
+
+    // Check Link / Dynamic Link values (child rows included) before the server rejects them
+    const linkErrors: string[] = [];
+    await this.checkLinkFields(doctype, doc, '', warnings, linkErrors, new Map());
+    if (linkErrors.length) {
+      throw new Error(`Invalid links for ${doctype}:\n- ${linkErrors.join('\n- ')}`);
+    }
 
     try {
-      const created = await this.createDocument(doctype, doc);
-      if (warnings.length) {
-        (created as any).__warnings = warnings;
+      const created = await this.createDocument(doctype, doc, idempotencyKey);
+      const allWarnings = [...warnings, ...((created as any)?.__warnings || [])];
+      if (allWarnings.length) {
+        (created as any).__warnings = allWarnings;
       }
       return created;
     } catch (error) {
@@ -2530,12 +4486,219 @@ class ERPNextClient {
     }
   }
 
+  // The site's date format from System Settings (e.g. "dd-mm-yyyy"), fetched once
+  private async getSystemDateFormat(): Promise<string | undefined> {
+    if (!this.dateFormat) {
+      this.dateFormat = this.axiosInstance
+        .get('/api/method/frappe.client.get_single_value', { params: { doctype: 'System Settings', field: 'date_format' } })
+        .then((response) => response.data.message || undefined)
+        .catch(() => undefined);
+    }
+    return this.dateFormat;
+  }
+
+  // The site's number format from System Settings (e.g. "#.###,##"), fetched once
+  private async getSystemNumberFormat(): Promise<string | undefined> {
+    if (!this.numberFormat) {
+      this.numberFormat = this.axiosInstance
+        .get('/api/method/frappe.client.get_single_value', { params: { doctype: 'System Settings', field: 'number_format' } })
+        .then((response) => response.data.message || undefined)
+        .catch(() => undefined);
+    }
+    return this.numberFormat;
+  }
+
+  // Convert values to their field types (dates, numbers, checks) and check Select options;
+  // every change is reported in warnings, values that cannot be converted in errors
+  private async coerceFieldValues(
+    meta: any,
+    doc: Record<string, any>,
+    path: string,
+    warnings: string[],
+    errors: string[]
+  ): Promise<void> {
+    for (const field of meta?.fields || []) {
+      if (!(field.fieldname in doc)) {
+        continue;
+      }
+      const original = doc[field.fieldname];
+      const needsDateFormat = ['Date', 'Datetime'].includes(field.fieldtype) && typeof original === 'string';
+      const needsNumberFormat = ['Int', 'Float', 'Currency', 'Percent'].includes(field.fieldtype) && typeof original === 'string';
+      const result = coerceFieldValue(
+        field,
+        original,
+        needsDateFormat ? await this.getSystemDateFormat() : undefined,
+        needsNumberFormat ? await this.getSystemNumberFormat() : undefined
+      );
+
+      if (result.error) {
+        errors.push(`${path}${field.fieldname} (${field.fieldtype}): ${result.error}`);
+      } else if (result.value !== original) {
+        doc[field.fieldname] = result.value;
+        warnings.push(`${path}${field.fieldname}: converted ${JSON.stringify(original)} to ${JSON.stringify(result.value)} (${field.fieldtype})`);
+      }
+    }
+  }
+
+  // Warn about (or fill from defaults) required fields that have no value
+  private checkRequiredFields(meta: any, doc: Record<string, any>, path: string, warnings: string[], autoFillDefaults: boolean): void {
+    const requiredFields = (meta?.fields || []).filter((f: any) => f.reqd);
+    for (const field of requiredFields) {
+      const val = doc[field.fieldname];
+      if (val === undefined || val === null || val === '') {
+        if (autoFillDefaults && field.default !== undefined && field.default !== null && field.default !== '') {
+          doc[field.fieldname] = field.default;
+          warnings.push(`Auto-filled default for missing required field '${path}${field.fieldname}'`);
+        } else {
+          warnings.push(`Missing required field '${path}${field.fieldname}'`);
+        }
+      }
+    }
+  }
+
+  // Run the smart checks (unknown keys, types, required fields) on every Table / Table MultiSelect row.
+  // Problems are reported per row, e.g. items[3].qty
+  private async checkChildRows(
+    meta: any,
+    doc: Record<string, any>,
+    path: string,
+    warnings: string[],
+    errors: string[],
+    autoFillDefaults: boolean
+  ): Promise<void> {
+    for (const field of meta?.fields || []) {
+      const rows = doc[field.fieldname];
+      if (!['Table', 'Table MultiSelect'].includes(field.fieldtype) || !Array.isArray(rows) || !field.options) {
+        continue;
+      }
+
+      let childMeta: any;
+      try {
+        childMeta = await this.getDocTypeMeta(field.options);
+      } catch (metaErr: any) {
+        warnings.push(`Could not validate ${path}${field.fieldname} rows: ${metaErr?.message || 'Unknown error'}`);
+        continue;
+      }
+      const childFields = new Set((childMeta.fields || []).map((f: any) => f.fieldname));
+
+      for (let i = 0; i < rows.length; i++) {
+        const rowPath = `${path}${field.fieldname}[${i}]`;
+        const row = rows[i];
+        if (!row || typeof row !== 'object' || Array.isArray(row)) {
+          errors.push(`${rowPath}: each ${field.options} row must be an object of field values`);
+          continue;
+        }
+
+        for (const key of Object.keys(row)) {
+          if (!childFields.has(key) && !(key in STANDARD_FIELD_TYPES) && !CHILD_ROW_KEYS.includes(key)) {
+            warnings.push(`${rowPath}.${key}: not a field of ${field.options} – it may be ignored by ERPNext`);
+          }
+        }
+
+        await this.coerceFieldValues(childMeta, row, `${rowPath}.`, warnings, errors);
+        this.checkRequiredFields(childMeta, row, `${rowPath}.`, warnings, autoFillDefaults);
+        await this.checkChildRows(childMeta, row, `${rowPath}.`, warnings, errors, autoFillDefaults);
+      }
+    }
+  }
+
+  // Whether a document exists (null when it cannot be checked, e.g. no read permission)
+  private async linkTargetExists(doctype: string, name: string): Promise<boolean | null> {
+    try {
+      const rows = await this.getDocList(doctype, [['name', '=', name]], ['name'], 1);
+      return rows.length > 0;
+    } catch {
+      return null;
+    }
+  }
+
+  // Validate the Link and Dynamic Link values of a document and its child rows.
+  // Unknown values with a single clear match are replaced (noted in warnings); the rest go to errors.
+  private async checkLinkFields(
+    doctype: string,
+    doc: Record<string, any>,
+    path: string,
+    warnings: string[],
+    errors: string[],
+    resolved: Map<string, string | null>
+  ): Promise<void> {
+    let meta: any;
+    try {
+      meta = await this.getDocTypeMeta(doctype);
+    } catch (metaErr: any) {
+      warnings.push(`Could not validate links${path ? ` in ${path}` : ''}: ${metaErr?.message || 'Unknown error'}`);
+      return;
+    }
+
+    for (const field of meta?.fields || []) {
+      const value = doc[field.fieldname];
+      const label = `${path}${field.fieldname}`;
+
+      if (['Table', 'Table MultiSelect'].includes(field.fieldtype) && Array.isArray(value) && field.options) {
+        for (let i = 0; i < value.length; i++) {
+          if (value[i] && typeof value[i] === 'object') {
+            await this.checkLinkFields(field.options, value[i], `${label}[${i}].`, warnings, errors, resolved);
+          }
+        }
+        continue;
+      }
+
+      if (value === undefined || value === null || value === '' || !['Link', 'Dynamic Link'].includes(field.fieldtype)) {
+        continue;
+      }
+
+      const target = field.fieldtype === 'Link' ? field.options : doc[field.options];
+      if (!target) {
+        errors.push(`${label}: Dynamic Link needs the DocType in '${path}${field.options}'`);
+        continue;
+      }
+
+      const text = String(value);
+      const key = `${target}::${text}`;
+      if (!resolved.has(key)) {
+        resolved.set(key, await this.resolveLinkValue(target, text, label, errors));
+      }
+      const name = resolved.get(key);
+      if (name && name !== text) {
+        doc[field.fieldname] = name;
+        warnings.push(`${label}: replaced "${text}" with ${target} ${name}`);
+      }
+    }
+  }
+
+  // Map a Link value to an existing document name; null (with an error recorded) when it can't be
+  private async resolveLinkValue(target: string, text: string, label: string, errors: string[]): Promise<string | null> {
+    const exists = await this.linkTargetExists(target, text);
+    if (exists !== false) {
+      // Existing, or unverifiable – leave it for the server to judge
+      return text;
+    }
+
+    let candidates: LinkCandidate[] = [];
+    try {
+      candidates = await this.resolveLink(target, text, 5);
+    } catch {/* fall through to "not found" */}
+
+    const exact = candidates.filter((c) => c.match === 'exact_name' || c.match === 'exact_title');
+    if (exact.length === 1 || (exact.length === 0 && candidates.length === 1)) {
+      return (exact[0] || candidates[0]).name;
+    }
+
+    const suggestions = candidates.map((c) => (c.title && c.title !== c.name ? `${c.name} (${c.title})` : c.name));
+    errors.push(
+      `${label}: no ${target} named "${text}"` +
+      (suggestions.length ? ` – did you mean ${suggestions.join(', ')}?` : ' and nothing similar was found')
+    );
+    return null;
+  }
+
   async updateSmartDocument(
     doctype: string,
     name: string,
     doc: Record<string, any>
   ): Promise<any> {
     const warnings: string[] = [];
+    const valueErrors: string[] = [];
     try {
       const meta = await this.getDocTypeMeta(doctype);
       if (meta && Array.isArray(meta.fields)) {
@@ -2545,10 +4708,15 @@ class ERPNextClient {
             warnings.push(`Field '${key}' does not exist in ${doctype} – it may be ignored by ERPNext`);
           }
         }
+        await this.coerceFieldValues(meta, doc, '', warnings, valueErrors);
+        await this.checkChildRows(meta, doc, '', warnings, valueErrors, false);
       }
     } catch (metaErr: any) {
       warnings.push(`Could not validate fields: ${metaErr?.message || 'Unknown error'}`);
     }
+    if (valueErrors.length) {
+      throw new Error(`Invalid values for ${doctype}:\n- ${valueErrors.join('\n- ')}`);
+    }
 
     try {
       const updated = await this.updateDocument(doctype, name, doc);
@@ -2562,9 +4730,6 @@ class ERPNextClient {
   }
 }
 
-// Cache for doctype metadata
-const doctypeCache = new Map<string, any>();
-
 // Utility function to parse and format enriched error information
 function formatEnrichedError(error: any, operation: string): string {
   let errorText = `${operation}: `;
@@ -2615,28 +4780,145 @@ function formatEnrichedError(error: any, operation: string): string {
   return errorText;
 }
 
-// Initialize ERPNext client
-const erpnext = new ERPNextClient();
+// Clients for configured site profiles, created on first use
+const siteClients = new Map<string, ERPNextClient>();
+
+function createSiteClient(profile: SiteProfile): ERPNextClient {
+  return new ERPNextClient({
+    url: profile.url,
+    apiKey: profile.api_key,
+    apiSecret: profile.api_secret,
+    username: profile.username,
+    password: profile.password,
+    oauth: {
+      clientId: profile.oauth_client_id,
+      clientSecret: profile.oauth_client_secret,
+      accessToken: profile.oauth_access_token,
+      refreshToken: profile.oauth_refresh_token,
+      tokenFile: profile.oauth_token_file
+    },
+    maxRetries: profile.max_retries,
+    retryDelay: profile.retry_delay,
+    timeout: profile.timeout
+  });
+}
+
+// Get the client for a named site profile
+function getSiteClient(site: string): ERPNextClient {
+  const cached = siteClients.get(site);
+  if (cached) {
+    return cached;
+  }
+
+  const profile = getSiteProfile(site);
+  if (!profile) {
+    const known = listSiteProfiles().map((p) => p.name);
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown site '${site}'. Configured sites: ${known.length ? known.join(', ') : 'none'}`
+    );
+  }
+
+  const client = createSiteClient(profile);
+  siteClients.set(site, client);
+  return client;
+}
+
+// What an MCP session may do with the `site` argument
+interface SiteAccess {
+  // Profiles the session may pick; undefined allows every profile (stdio)
+  allowedSites?: string[];
+  // The session's own ERPNext credentials; site clients use these, never the profile's
+  credentials?: { apiKey?: string; apiSecret?: string; accessToken?: string };
+}
+
+// Resolves `site` for one session, keeping the session's own clients per site
+function createSiteResolver(access: SiteAccess) {
+  const ownClients = new Map<string, ERPNextClient>();
+
+  const allows = (site: string) => !access.allowedSites || access.allowedSites.includes(site);
 
-// Create an MCP server with capabilities for resources and tools
-const server = new Server(
-  {
-    name: "erpnext-server",
-    version: "0.1.0"
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {}
+  const resolve = (site: string): ERPNextClient => {
+    if (!allows(site)) {
+      throw new McpError(ErrorCode.InvalidParams, `Site '${site}' is not available to this session`);
     }
+    const credentials = access.credentials;
+    if (!credentials) {
+      return getSiteClient(site);
+    }
+
+    const cached = ownClients.get(site);
+    if (cached) {
+      return cached;
+    }
+    const profile = getSiteProfile(site);
+    if (!profile) {
+      // Same error as for the shared profile clients
+      return getSiteClient(site);
+    }
+    const client = new ERPNextClient({
+      url: profile.url,
+      apiKey: credentials.apiKey,
+      apiSecret: credentials.apiSecret,
+      oauth: credentials.accessToken ? { accessToken: credentials.accessToken } : undefined,
+      maxRetries: profile.max_retries,
+      retryDelay: profile.retry_delay,
+      timeout: profile.timeout
+    });
+    ownClients.set(site, client);
+    return client;
+  };
+
+  return { allows, resolve };
+}
+
+// Tool content for a page of documents: the rows, then the cursor when more follow
+function formatDocPage(page: DocPage): { type: string; text: string }[] {
+  const content = [{ type: "text", text: JSON.stringify(page.data, null, 2) }];
+  if (page.nextCursor) {
+    content.push({
+      type: "text",
+      text: `More documents available. Call again with cursor="${page.nextCursor}" for the next page.`
+    });
+  }
+  return content;
+}
+
+// Initialize ERPNext client: the default site profile if one is configured,
+// otherwise the ERPNEXT_* environment variables
+const defaultSite = loadSiteConfig().defaultSite;
+const erpnext = defaultSite ? getSiteClient(defaultSite) : new ERPNextClient();
+
+// Every tool takes an optional `site` to run against a configured site profile
+function withSiteArgument(tool: any): any {
+  if (tool.name === "list_sites") {
+    return tool;
   }
-);
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...(tool.inputSchema?.properties || {}),
+        site: {
+          type: "string",
+          description: "Site profile to run against (optional, see list_sites; defaults to the session's site)"
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Only show the write requests this call would send to ERPNext, without sending them; reads still run (optional, default false)"
+        }
+      }
+    }
+  };
+}
 
 /**
  * Handler for listing available ERPNext resources.
  * Exposes DocTypes list as a resource and common doctypes as individual resources.
  */
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
+const handleListResources = async () => {
   // List of common DocTypes to expose as individual resources
   const commonDoctypes = [
     "Customer",
@@ -2662,13 +4944,13 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
   return {
     resources
   };
-});
+};
 
 /**
  * Handler for resource templates.
  * Allows querying ERPNext documents by doctype and name.
  */
-server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+const handleListResourceTemplates = async () => {
   const resourceTemplates = [
     {
       uriTemplate: "erpnext://{doctype}/{name}",
@@ -2679,12 +4961,12 @@ server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
   ];
 
   return { resourceTemplates };
-});
+};
 
 /**
- * Handler for reading ERPNext resources.
+ * Handler for reading ERPNext resources with the given client.
  */
-server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
+const createReadResourceHandler = (erpnext: ERPNextClient) => async (request: any) => {
   if (!erpnext.isAuthenticated()) {
     throw new McpError(
       ErrorCode.InvalidRequest,
@@ -2738,12 +5020,12 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
       text: JSON.stringify(result, null, 2)
     }]
   };
-});
+};
 
 /**
  * Handler that lists available tools.
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+const handleListTools = async () => {
   return {
     tools: [
       {
@@ -2786,13 +5068,30 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Fields to include (optional)"
             },
             filters: {
-              type: "object",
-              additionalProperties: true,
-              description: "Filters in the format {field: value} (optional)"
+              description: "Filters as {field: value}, {field: [operator, value]} or a list of [field, operator, value] triples, e.g. [[\"posting_date\", \">\", \"2024-01-01\"]] (optional)"
+            },
+            or_filters: {
+              description: "Filters in the same formats as `filters`, combined with OR (optional)"
+            },
+            order_by: {
+              type: "string",
+              description: "Sort order, e.g. 'modified desc' (optional)"
+            },
+            group_by: {
+              type: "string",
+              description: "Field to group by (optional)"
             },
             limit: {
               type: "number",
-              description: "Maximum number of documents to return (optional)"
+              description: `Page size: maximum number of documents to return (optional, default ${DEFAULT_PAGE_SIZE}, at most ${MAX_PAGE_SIZE})`
+            },
+            limit_start: {
+              type: "number",
+              description: "Number of documents to skip, for paging (optional)"
+            },
+            cursor: {
+              type: "string",
+              description: "Continuation cursor returned with the previous page; when given, the other query arguments are ignored (optional)"
             }
           },
           required: ["doctype"]
@@ -2817,7 +5116,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               enum: ["standard", "smart"],
               default: "smart",
-              description: "Creation mode: 'smart' (default) or 'standard' (legacy). Smart mode performs validation & enhanced error handling."
+              description: "Creation mode: 'smart' (default) or 'standard' (legacy). Smart mode performs validation & enhanced error handling, converting values to their field types and checking Link values (unambiguous names are corrected, others rejected with suggestions)."
+            },
+            idempotency_key: {
+              type: "string",
+              description: "Unique key for this create (optional). Repeating the call with the same key returns the document already created instead of a duplicate"
             }
           },
           required: ["doctype", "data"]
@@ -2846,7 +5149,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               enum: ["standard", "smart"],
               default: "smart",
-              description: "Update mode: 'smart' (default) or 'standard' (legacy). Smart mode performs validation & enhanced error handling."
+              description: "Update mode: 'smart' (default) or 'standard' (legacy). Smart mode performs validation & enhanced error handling, converting values to their field types."
             }
           },
           required: ["doctype", "name", "data"]
@@ -3300,6 +5603,122 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["doctype", "name"]
         }
       },
+      {
+        name: "submit_document",
+        description: "Submit a draft document of a submittable DocType (e.g. Sales Invoice, Stock Entry): docstatus 0 → 1",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "cancel_document",
+        description: "Cancel a submitted document: docstatus 1 → 2",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "amend_document",
+        description: "Amend a cancelled document: creates a new draft (NAME-1, NAME-2, ...) linked through amended_from",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Name/ID of the cancelled document" },
+            overrides: { type: "object", description: "Fields to change on the amendment (optional)" }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "rename_document",
+        description: "Rename a document, or merge it into an existing one (merge=true); links in other records are updated by ERPNext. The DocType must allow renaming",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            old: { type: "string", description: "Current document name/ID" },
+            new: { type: "string", description: "New document name/ID (the merge target when merge=true)" },
+            merge: { type: "boolean", description: "Merge into the existing document named `new` (optional, default false)" }
+          },
+          required: ["doctype", "old", "new"]
+        }
+      },
+      {
+        name: "upload_attachment",
+        description: "Upload a file (base64 content, or over stdio a file in the server's ERPNEXT_UPLOAD_DIR) and optionally attach it to a document, or to an Attach/Attach Image field",
+        inputSchema: {
+          type: "object",
+          properties: {
+            content_base64: { type: "string", description: "File content, base64 encoded (or use path)" },
+            path: { type: "string", description: "File inside the server's ERPNEXT_UPLOAD_DIR, relative to it (stdio only; or use content_base64)" },
+            file_name: { type: "string", description: "File name (required with content_base64; defaults to the path's base name)" },
+            doctype: { type: "string", description: "DocType of the document to attach to (optional)" },
+            name: { type: "string", description: "Name/ID of the document to attach to (optional)" },
+            fieldname: { type: "string", description: "Attach or Attach Image field to set to the file URL (optional)" },
+            is_private: { type: "boolean", description: "Store as a private file (optional, default true)" },
+            folder: { type: "string", description: "File folder, e.g. Home/Attachments (optional)" }
+          }
+        }
+      },
+      {
+        name: "list_attachments",
+        description: "List the files attached to a document",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "download_attachment",
+        description: "Download a file by File record name or file URL; returns the content as a blob resource",
+        inputSchema: {
+          type: "object",
+          properties: {
+            file: { type: "string", description: "File record name, as listed by list_attachments (or use file_url)" },
+            file_url: { type: "string", description: "File URL such as /private/files/receipt.pdf (or use file)" }
+          }
+        }
+      },
+      {
+        name: "get_workflow_transitions",
+        description: "List the workflow actions the current user may take on a document from its current workflow_state",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "apply_workflow_action",
+        description: "Apply a workflow action (e.g. Approve, Reject) to a document, moving it to the transition's next state",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" },
+            action: { type: "string", description: "Workflow action, as listed by get_workflow_transitions" }
+          },
+          required: ["doctype", "name", "action"]
+        }
+      },
       {
         name: "clone_document",
         description: "Clone a document (optionally override fields)",
@@ -3320,7 +5739,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           type: "object",
           properties: {
             doctype: { type: "string", description: "DocType name" },
-            filters: { type: "object", description: "Filters (optional)" }
+            filters: { description: "Filters, same formats as get_documents (optional)" },
+            max_rows: { type: "number", description: `Maximum number of documents to export (optional, defaults to and capped at ${MAX_EXPORT_ROWS})` }
           },
           required: ["doctype"]
         }
@@ -3356,33 +5776,81 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           type: "object",
           properties: {
             doctype: { type: "string", description: "DocType name" },
-            updates: { type: "array", items: { type: "object", properties: { name: { type: "string" }, data: { type: "object" } }, required: ["name", "data"] }, description: "Array of updates" }
+            updates: { type: "array", items: { type: "object", properties: { name: { type: "string" }, data: { type: "object" } }, required: ["name", "data"] }, description: "Array of updates" }
+          },
+          required: ["doctype", "updates"]
+        }
+      },
+      {
+        name: "bulk_delete_documents",
+        description: "Bulk delete documents",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            names: { type: "array", items: { type: "string" }, description: "Array of document names/IDs" }
+          },
+          required: ["doctype", "names"]
+        }
+      },
+      {
+        name: "search_documents",
+        description: "Advanced search for documents",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            query: {
+              type: "object",
+              description: "Either plain field filters, or a structured query { filters, or_filters, fields, order_by, group_by, limit, limit_start, text } where `text` searches the name, title and search fields"
+            },
+            cursor: { type: "string", description: "Continuation cursor returned with the previous page; replaces `query` (optional)" }
           },
-          required: ["doctype", "updates"]
+          required: ["doctype"]
         }
       },
       {
-        name: "bulk_delete_documents",
-        description: "Bulk delete documents",
+        name: "aggregate_documents",
+        description: "Count, sum, average, min or max over all matching documents (not just one page), optionally grouped; returns a compact table",
         inputSchema: {
           type: "object",
           properties: {
             doctype: { type: "string", description: "DocType name" },
-            names: { type: "array", items: { type: "string" }, description: "Array of document names/IDs" }
+            metrics: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  function: { type: "string", enum: ["count", "sum", "avg", "min", "max"] },
+                  field: { type: "string", description: "Field to aggregate (optional for count)" }
+                },
+                required: ["function"]
+              },
+              description: "Aggregates to compute (optional, defaults to a count)"
+            },
+            group_by: {
+              anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+              description: "Field(s) to group by (optional)"
+            },
+            filters: { description: "Filters, same formats as get_documents (optional)" },
+            or_filters: { description: "OR filters, same formats as get_documents (optional)" },
+            order_by: { type: "string", description: "Sort order, e.g. \"sum_grand_total desc\" (optional, defaults to the first metric descending)" },
+            limit: { type: "number", description: "Maximum number of groups (optional, default 100)" }
           },
-          required: ["doctype", "names"]
+          required: ["doctype"]
         }
       },
       {
-        name: "search_documents",
-        description: "Advanced search for documents",
+        name: "resolve_link",
+        description: "Resolve a human-readable value (e.g. a customer name) to the document names a Link field needs; returns ranked candidates with their titles",
         inputSchema: {
           type: "object",
           properties: {
-            doctype: { type: "string", description: "DocType name" },
-            query: { type: "object", description: "Query object (field filters)" }
+            doctype: { type: "string", description: "DocType the Link field points to, e.g. Customer" },
+            text: { type: "string", description: "Value to look up, e.g. \"Acme Corp\"" },
+            limit: { type: "number", description: "Maximum number of candidates (optional, default 10)" }
           },
-          required: ["doctype", "query"]
+          required: ["doctype", "text"]
         }
       },
       {
@@ -3493,6 +5961,72 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["doctype", "name"]
         }
       },
+      {
+        name: "add_comment",
+        description: "Add a comment to a document's timeline",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" },
+            content: { type: "string", description: "Comment text (HTML allowed)" }
+          },
+          required: ["doctype", "name", "content"]
+        }
+      },
+      {
+        name: "get_timeline",
+        description: "Get a document's full history as one chronological feed: comments, emails and other communications, field changes and assignments",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" },
+            format: { type: "string", enum: ["text", "json"], description: "Readable text feed (default) or JSON entries" }
+          },
+          required: ["doctype", "name"]
+        }
+      },
+      {
+        name: "assign_document",
+        description: "Assign a document to one or more users, creating their ToDos (with optional due date and description)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" },
+            users: { type: "array", items: { type: "string" }, description: "User IDs (emails) to assign to" },
+            date: { type: "string", description: "Due date, YYYY-MM-DD (optional)" },
+            description: { type: "string", description: "What the assignee should do (optional)" },
+            priority: { type: "string", enum: ["Low", "Medium", "High"], description: "Priority (optional)" }
+          },
+          required: ["doctype", "name", "users"]
+        }
+      },
+      {
+        name: "remove_assignment",
+        description: "Remove a user's assignment from a document",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType name" },
+            name: { type: "string", description: "Document name/ID" },
+            user: { type: "string", description: "User ID (email) whose assignment to remove" }
+          },
+          required: ["doctype", "name", "user"]
+        }
+      },
+      {
+        name: "get_user_todos",
+        description: "List a user's ToDos across all doctypes, earliest due date first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            user: { type: "string", description: "User ID (email); defaults to the logged-in user" },
+            status: { type: "string", enum: ["Open", "Closed", "Cancelled"], description: "ToDo status (optional, default Open)" }
+          }
+        }
+      },
       {
         name: "rollback_document",
         description: "Rollback a document to a previous version",
@@ -4002,15 +6536,76 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ["doctype", "docs"]
         }
+      },
+      {
+        name: "cache_stats",
+        description: "Show the DocType metadata cache for the site: cached doctypes, hits, misses, revalidations and the on-disk file if any",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        }
+      },
+      {
+        name: "clear_cache",
+        description: "Drop cached DocType metadata (one DocType, or everything) so it is fetched fresh; optionally warm the cache again",
+        inputSchema: {
+          type: "object",
+          properties: {
+            doctype: { type: "string", description: "DocType to drop (optional, default all)" },
+            warm: { type: "array", items: { type: "string" }, description: "Doctypes to load again right away (optional)" }
+          }
+        }
+      },
+      {
+        name: "upstream_status",
+        description: "Show whether the ERPNext site is reachable: the circuit breaker state (closed, open or half_open), consecutive failures and the last error. While the circuit is open, calls fail straight away with an \"ERPNext unavailable\" error",
+        inputSchema: {
+          type: "object",
+          properties: {
+            probe: { type: "boolean", description: "Also ping the site now (default false); while the circuit is open the ping fails fast too" }
+          }
+        }
+      },
+      {
+        name: "query_audit_log",
+        description: "Search the audit log of changes made through this server (document changes, permission changes, DocType/script/workflow creation and the like) on the current site, newest first. Each entry shows the tool and its arguments (secrets redacted), the client, session and ERPNext user, the upstream status and the documents involved. Over HTTP only the calling API key's own entries are shown, unless it is an admin key",
+        inputSchema: {
+          type: "object",
+          properties: {
+            since: { type: "string", description: "Only entries at or after this date or ISO date-time, e.g. 2024-05-01 or 2024-05-01T09:00:00Z (UTC unless an offset is given)" },
+            until: { type: "string", description: "Only entries at or before this date or ISO date-time; a bare date includes the whole day" },
+            tool: { type: "string", description: "Tool name (e.g. bulk_update_documents) or operation (create_document, update_document, delete_document, submit_document, cancel_document, amend_document, apply_workflow, rename_document, set_permissions, create_doctype, create_workflow, ...)" },
+            doctype: { type: "string", description: "DocType of the documents changed" },
+            limit: { type: "number", description: "Most entries to return (default 50)" },
+            all_sites: { type: "boolean", description: "Include entries for every site, not just the current one (stdio and admin API keys only)" }
+          }
+        }
+      },
+      {
+        name: "list_sites",
+        description: "List the configured ERPNext site profiles that can be passed as `site` to any tool",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        }
       }
-    ]
+    ].map(withSiteArgument)
   };
-});
+};
 
 /**
- * Handler for tool calls.
+ * Handler for tool calls made with the given client.
  */
-server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+const createCallToolHandler = (
+  sessionClient: ERPNextClient,
+  sites: ReturnType<typeof createSiteResolver>,
+  caller: AuditCaller
+) => async (request: any) => {
+  // Pick the client for the requested site and hide `site` from the tool itself
+  const { site, ...toolArguments } = request.params.arguments || {};
+  const erpnext = site ? sites.resolve(String(site)) : sessionClient;
+  request = { ...request, params: { ...request.params, arguments: toolArguments } };
+
   switch (request.params.name) {
     case "get_documents": {
       if (!erpnext.isAuthenticated()) {
@@ -4025,8 +6620,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       
       const doctype = String(request.params.arguments?.doctype);
       const fields = request.params.arguments?.fields as string[] | undefined;
-      const filters = request.params.arguments?.filters as Record<string, any> | undefined;
+      const filters = request.params.arguments?.filters as ListFilters | undefined;
+      const orFilters = request.params.arguments?.or_filters as ListFilters | undefined;
+      const orderBy = request.params.arguments?.order_by as string | undefined;
+      const groupBy = request.params.arguments?.group_by as string | undefined;
       const limit = request.params.arguments?.limit as number | undefined;
+      const limitStart = request.params.arguments?.limit_start as number | undefined;
+      const cursor = request.params.arguments?.cursor as string | undefined;
       
       if (!doctype) {
         throw new McpError(
@@ -4036,12 +6636,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       }
       
       try {
-        const documents = await erpnext.getDocList(doctype, filters, fields, limit);
+        let page: DocPage;
+        if (cursor) {
+          page = await erpnext.continueDocPage(cursor, doctype);
+        } else {
+          await erpnext.validateListFilters(doctype, filters, orFilters);
+          page = await erpnext.getDocPage(doctype, filters, fields, {
+            limitStart,
+            orderBy,
+            orFilters,
+            groupBy,
+            pageSize: limit
+          });
+        }
         return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(documents, null, 2)
-          }]
+          content: formatDocPage(page)
         };
       } catch (error: any) {
         return {
@@ -4068,6 +6677,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       const doctype = String(request.params.arguments?.doctype);
       const data = request.params.arguments?.data as Record<string, any> | undefined;
       const mode = String(request.params.arguments?.mode || 'smart').toLowerCase();
+      const idempotencyKey = request.params.arguments?.idempotency_key as string | undefined;
       
       if (!doctype || !data) {
         throw new McpError(
@@ -4080,11 +6690,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       let ok = true;
       try {
         payload = mode === 'smart'
-          ? await erpnext.createSmartDocument(doctype, data)
-          : await erpnext.createDocument(doctype, data);
-        let responseText = `Created ${doctype}: ${payload.name}\n\n${JSON.stringify(payload, null, 2)}`;
-        if (payload.__warnings) {
-          responseText += `\n\n⚠️ Warnings:\n- ${payload.__warnings.join('\n- ')}`;
+          ? await erpnext.createSmartDocument(doctype, data, true, idempotencyKey)
+          : await erpnext.createDocument(doctype, data, idempotencyKey);
+        const replayed = payload.__idempotent_replay;
+        const warnings: string[] | undefined = payload.__warnings;
+        delete payload.__idempotent_replay;
+        delete payload.__warnings;
+        let responseText = `${replayed ? 'Already created (same idempotency_key)' : 'Created'} ${doctype}: ${payload.name}\n\n${JSON.stringify(payload, null, 2)}`;
+        if (warnings?.length) {
+          responseText += `\n\n⚠️ Warnings:\n- ${warnings.join('\n- ')}`;
         }
         return {
           content: [{ type: "text", text: responseText }]
@@ -5254,6 +7868,131 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
         return { content: [{ type: "text", text: `Failed to delete ${doctype} ${name}: ${error?.message || 'Unknown error'}` }], isError: true };
       }
     }
+    case "submit_document": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name } = request.params.arguments;
+      try {
+        const result = await erpnext.submitDocument(doctype, name);
+        return { content: [{ type: "text", text: `Submitted ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to submit ${doctype} ${name}`) }], isError: true };
+      }
+    }
+    case "cancel_document": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name } = request.params.arguments;
+      try {
+        const result = await erpnext.cancelDocument(doctype, name);
+        return { content: [{ type: "text", text: `Cancelled ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to cancel ${doctype} ${name}`) }], isError: true };
+      }
+    }
+    case "amend_document": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name, overrides } = request.params.arguments;
+      try {
+        const result = await erpnext.amendDocument(doctype, name, overrides);
+        return { content: [{ type: "text", text: `Amended ${doctype} ${name} as draft ${result.name}\n\n${JSON.stringify(result, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to amend ${doctype} ${name}`) }], isError: true };
+      }
+    }
+    case "rename_document": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, old: oldName, new: newName, merge } = request.params.arguments;
+      if (!doctype || !oldName || !newName) {
+        throw new McpError(ErrorCode.InvalidParams, "DocType, old and new names are required");
+      }
+      try {
+        const result = await erpnext.renameDocument(doctype, oldName, newName, Boolean(merge));
+        const linkedText = result.linked_records_updated === null ? 'linked records could not be counted' : `${result.linked_records_updated} linked records updated`;
+        return { content: [{ type: "text", text: `${merge ? 'Merged' : 'Renamed'} ${doctype} ${oldName} → ${result.new_name} (${linkedText})\n\n${JSON.stringify(result, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to rename ${doctype} ${oldName}`) }], isError: true };
+      }
+    }
+    case "upload_attachment": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const upload = request.params.arguments as AttachmentUpload;
+      // Remote sessions must not read files off the server
+      if (upload.path && caller.remote) {
+        return { content: [{ type: "text", text: "Failed to upload attachment: path is not available over HTTP; send the file as content_base64" }], isError: true };
+      }
+      try {
+        const file = await erpnext.uploadAttachment(upload);
+        const target = upload.doctype ? ` to ${upload.doctype} ${upload.name}${upload.fieldname ? ` (${upload.fieldname})` : ''}` : '';
+        return { content: [{ type: "text", text: `Uploaded ${file?.file_name}${target}: ${file?.file_url}\n\n${JSON.stringify(file, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to upload attachment`) }], isError: true };
+      }
+    }
+    case "list_attachments": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name } = request.params.arguments;
+      try {
+        const files = await erpnext.listAttachments(doctype, name);
+        return { content: [{ type: "text", text: JSON.stringify(files, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to list attachments of ${doctype} ${name}: ${error?.message || 'Unknown error'}` }], isError: true };
+      }
+    }
+    case "download_attachment": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { file, file_url } = request.params.arguments;
+      try {
+        const result = await erpnext.downloadAttachment({ name: file, file_url });
+        return {
+          content: [
+            { type: "text", text: `${result.file_name} (${result.mimeType}, ${result.size} bytes)` },
+            { type: "resource", resource: { uri: result.uri, mimeType: result.mimeType, blob: result.blob } }
+          ]
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to download attachment: ${error?.message || 'Unknown error'}` }], isError: true };
+      }
+    }
+    case "get_workflow_transitions": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name } = request.params.arguments;
+      try {
+        const result = await erpnext.getWorkflowTransitions(doctype, name);
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to get workflow transitions for ${doctype} ${name}`) }], isError: true };
+      }
+    }
+    case "apply_workflow_action": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name, action } = request.params.arguments;
+      if (!action) {
+        throw new McpError(ErrorCode.InvalidParams, "Workflow action is required");
+      }
+      try {
+        const result = await erpnext.applyWorkflowAction(doctype, name, action);
+        return { content: [{ type: "text", text: `Applied '${action}' to ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to apply '${action}' to ${doctype} ${name}`) }], isError: true };
+      }
+    }
     case "clone_document": {
       if (!erpnext.isAuthenticated()) {
         return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
@@ -5270,10 +8009,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       if (!erpnext.isAuthenticated()) {
         return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
       }
-      const { doctype, filters } = request.params.arguments;
+      const { doctype, filters, max_rows } = request.params.arguments;
       try {
-        const result = await erpnext.exportDocuments(doctype, filters);
-        return { content: [{ type: "text", text: result }] };
+        const result = await erpnext.exportDocuments(doctype, filters, max_rows);
+        const content = [{ type: "text", text: result.json }];
+        if (result.truncated) {
+          const hint = result.maxRows < MAX_EXPORT_ROWS
+            ? `Narrow the filters or raise max_rows (up to ${MAX_EXPORT_ROWS}).`
+            : `${MAX_EXPORT_ROWS} is the most one export returns; narrow the filters to export the rest in parts.`;
+          content.push({ type: "text", text: `Export stopped at ${result.count} documents; more match. ${hint}` });
+        }
+        return { content };
       } catch (error: any) {
         return { content: [{ type: "text", text: `Failed to export ${doctype}: ${error?.message || 'Unknown error'}` }], isError: true };
       }
@@ -5345,14 +8091,53 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       if (!erpnext.isAuthenticated()) {
         return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
       }
-      const { doctype, query } = request.params.arguments;
+      const { doctype, query, cursor } = request.params.arguments;
       try {
-        const result = await erpnext.searchDocuments(doctype, query);
-        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        const page = cursor
+          ? await erpnext.continueDocPage(cursor, doctype)
+          : await erpnext.searchDocuments(doctype, query || {});
+        return { content: formatDocPage(page) };
       } catch (error: any) {
         return { content: [{ type: "text", text: `Failed to search in ${doctype}: ${error?.message || 'Unknown error'}` }], isError: true };
       }
     }
+    case "aggregate_documents": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, metrics, group_by, filters, or_filters, order_by, limit } = request.params.arguments;
+      const groupBy = group_by ? (Array.isArray(group_by) ? group_by : String(group_by).split(',').map((f: string) => f.trim()).filter(Boolean)) : [];
+      try {
+        const result = await erpnext.aggregateDocuments(doctype, metrics, {
+          filters,
+          orFilters: or_filters,
+          groupBy,
+          orderBy: order_by,
+          limit
+        });
+        return { content: [{ type: "text", text: formatTable(result.columns, result.rows) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to aggregate ${doctype}: ${error?.message || 'Unknown error'}` }], isError: true };
+      }
+    }
+    case "resolve_link": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, text, limit } = request.params.arguments;
+      if (!doctype || !text) {
+        throw new McpError(ErrorCode.InvalidParams, "DocType and text are required");
+      }
+      try {
+        const candidates = await erpnext.resolveLink(doctype, String(text), limit);
+        if (!candidates.length) {
+          return { content: [{ type: "text", text: `No ${doctype} matches "${text}"` }] };
+        }
+        return { content: [{ type: "text", text: JSON.stringify(candidates, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to resolve ${doctype} "${text}": ${error?.message || 'Unknown error'}` }], isError: true };
+      }
+    }
     case "get_permissions": {
       if (!erpnext.isAuthenticated()) {
         return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
@@ -5811,6 +8596,78 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
         return { content: [{ type: "text", text: `Failed to get history: ${error?.message || 'Unknown error'}` }], isError: true };
       }
     }
+    case "add_comment": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name, content } = request.params.arguments;
+      try {
+        const result = await erpnext.addComment(doctype, name, content);
+        return { content: [{ type: "text", text: `Added comment ${result.name} to ${doctype} ${name}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to comment on ${doctype} ${name}`) }], isError: true };
+      }
+    }
+    case "get_timeline": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name, format } = request.params.arguments;
+      try {
+        const { entries, warnings } = await erpnext.getTimeline(doctype, name);
+        if (format === "json") {
+          return { content: [{ type: "text", text: JSON.stringify({ entries, warnings }, null, 2) }] };
+        }
+        const lines = entries.map(e => `${String(e.timestamp).slice(0, 19)} [${e.type}]${e.by ? ` ${e.by}` : ''}: ${e.summary}`);
+        let text = `Timeline of ${doctype} ${name} (${entries.length} entries)\n\n${lines.join('\n') || 'No activity recorded.'}`;
+        if (warnings.length) {
+          text += `\n\nSome sources could not be read:\n- ${warnings.join('\n- ')}`;
+        }
+        return { content: [{ type: "text", text }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get timeline: ${error?.message || 'Unknown error'}` }], isError: true };
+      }
+    }
+    case "assign_document": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name, users, date, description, priority } = request.params.arguments;
+      const assignees = Array.isArray(users) ? users : [users].filter(Boolean);
+      if (!assignees.length) {
+        throw new McpError(ErrorCode.InvalidParams, "At least one user is required");
+      }
+      try {
+        const result = await erpnext.assignDocument(doctype, name, assignees, { date, description, priority });
+        return { content: [{ type: "text", text: `Assigned ${doctype} ${name} to ${assignees.join(', ')}\n\n${JSON.stringify(result, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to assign ${doctype} ${name}`) }], isError: true };
+      }
+    }
+    case "remove_assignment": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { doctype, name, user } = request.params.arguments;
+      try {
+        const result = await erpnext.removeAssignment(doctype, name, user);
+        return { content: [{ type: "text", text: `Removed ${user}'s assignment from ${doctype} ${name}\n\n${JSON.stringify(result, null, 2)}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: formatEnrichedError(error, `Failed to remove assignment`) }], isError: true };
+      }
+    }
+    case "get_user_todos": {
+      if (!erpnext.isAuthenticated()) {
+        return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+      }
+      const { user, status } = request.params.arguments;
+      try {
+        const todos = await erpnext.getUserTodos(user, status);
+        return { content: [{ type: "text", text: JSON.stringify(todos, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get ToDos: ${error?.message || 'Unknown error'}` }], isError: true };
+      }
+    }
     case "rollback_document": {
       const { doctype, name, version_id } = request.params.arguments;
       try {
@@ -6495,24 +9352,145 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       }
     }
       
+    case "cache_stats": {
+      return { content: [{ type: "text", text: JSON.stringify(erpnext.getDocTypeCacheStats(), null, 2) }] };
+    }
+    case "clear_cache": {
+      const { doctype, warm } = request.params.arguments;
+      const removed = erpnext.clearDocTypeCache(doctype);
+      let text = `Cleared ${removed} cached DocType ${removed === 1 ? 'entry' : 'entries'}${doctype ? ` for ${doctype}` : ''}`;
+      if (Array.isArray(warm) && warm.length) {
+        if (!erpnext.isAuthenticated()) {
+          return { content: [{ type: "text", text: "Not authenticated with ERPNext. Please configure API key authentication." }], isError: true };
+        }
+        const result = await erpnext.warmDocTypeCache(warm);
+        text += `\nWarmed: ${result.warmed.join(', ') || 'none'}`;
+        if (Object.keys(result.failed).length) {
+          text += `\nFailed:\n${Object.entries(result.failed).map(([d, e]) => `- ${d}: ${e}`).join('\n')}`;
+        }
+      }
+      return { content: [{ type: "text", text }] };
+    }
+    case "upstream_status": {
+      const { probe } = request.params.arguments;
+      // Ping first so the state shown reflects its outcome
+      const ping = probe ? await erpnext.pingUpstream() : undefined;
+      const status = { ...erpnext.getCircuitBreakerStats(), ...(ping ? { probe: ping } : {}) };
+      return { content: [{ type: "text", text: JSON.stringify(status, null, 2) }] };
+    }
+    case "query_audit_log": {
+      const { since, until, tool, doctype, limit, all_sites } = request.params.arguments;
+      // HTTP clients only see their own entries, unless their API key is an admin key
+      const seesAll = !caller.remote || caller.admin === true;
+      if (all_sites && !seesAll) {
+        return { content: [{ type: "text", text: "all_sites is only available to admin API keys" }], isError: true };
+      }
+      try {
+        const entries = await queryAuditLog({
+          since,
+          until,
+          tool,
+          doctype,
+          limit,
+          site: all_sites ? undefined : erpnext.getBaseUrl(),
+          client: seesAll ? undefined : caller.client,
+          user: seesAll ? undefined : await erpnext.getAuditUser()
+        });
+        return { content: [{ type: "text", text: entries.length ? JSON.stringify(entries, null, 2) : "No matching audit log entries" }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to query the audit log: ${error?.message || 'Unknown error'}` }], isError: true };
+      }
+    }
+    case "list_sites": {
+      const profiles = listSiteProfiles().filter((profile) => sites.allows(profile.name)).map((profile) => ({
+        name: profile.name,
+        url: profile.url,
+        description: profile.description,
+        authenticated: Boolean(
+          (profile.api_key && profile.api_secret) ||
+          (profile.username && profile.password) ||
+          profile.oauth_access_token ||
+          profile.oauth_refresh_token
+        ),
+        default: profile.name === defaultSite
+      }));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ current_url: sessionClient.getBaseUrl(), sites: profiles }, null, 2)
+        }]
+      };
+    }
+
     default:
       throw new McpError(
         ErrorCode.MethodNotFound,
         `Unknown tool: ${request.params.name}`
       );
   }
-});
+};
+
+/**
+ * Create an MCP server with capabilities for resources and tools.
+ * Every instance shares the handlers above, so each transport (stdio, or one
+ * per HTTP session) can get its own isolated server. Pass a client to have
+ * the session act as a different ERPNext user than the server default, and
+ * `access` to limit which site profiles the session may use with `site`.
+ */
+function createMcpServer(
+  client: ERPNextClient = erpnext,
+  caller: AuditCaller = { client: "stdio" },
+  access: SiteAccess = {}
+): Server {
+  const server = new Server(
+    {
+      name: "erpnext-server",
+      version: "0.1.0"
+    },
+    {
+      capabilities: {
+        resources: {},
+        tools: {}
+      }
+    }
+  );
+
+  server.setRequestHandler(ListResourcesRequestSchema, handleListResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, handleListResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, createReadResourceHandler(client));
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  // Tool calls carry the tool and caller along, for the audit log entries of any changes they make.
+  // In a dry run the tool's writes are collected into a plan shown ahead of its output.
+  const callTool = createCallToolHandler(client, createSiteResolver(access), caller);
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { dry_run, ...toolArguments } = request.params.arguments || {};
+    request = { ...request, params: { ...request.params, arguments: toolArguments } };
+    return runToolCall(request.params.name, toolArguments, caller, async () => {
+      if (!dry_run && !isDryRunDefault()) {
+        return callTool(request);
+      }
+      const { result, requests } = await runDryRun(() => callTool(request));
+      return { ...result, content: [{ type: "text", text: formatDryRunPlan(requests) }, ...(result.content || [])] };
+    });
+  });
+
+  return server;
+}
 
 /**
  * Start the server using stdio transport.
  */
 async function main() {
+  const server = createMcpServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('ERPNext MCP server running on stdio');
 }
 
-export { server };
+export { createMcpServer, ERPNextClient };
+export type { AuditCaller, SiteAccess };
+export type { ERPNextClientOptions };
 
 if (process.argv[1] === fileURLToPath(import.meta.url)) {
   main().catch((error) => {
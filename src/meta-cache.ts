@@ -0,0 +1,182 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * DocType metadata cache, shared by every client of the same ERPNext site.
+ *
+ * Entries are served from memory for ERPNEXT_META_CACHE_TTL milliseconds
+ * (default 5 minutes). After that the caller revalidates them by comparing
+ * the DocType's `modified` timestamp, which is much cheaper than refetching.
+ *
+ * Set ERPNEXT_META_CACHE_DIR to keep the cache on disk (one JSON file per
+ * site) so it survives restarts, and ERPNEXT_META_CACHE_WARM to a
+ * comma-separated list of doctypes to load when a site is first used.
+ */
+
+export interface MetaCacheEntry {
+  data: any;
+  modified?: string;
+  checkedAt: number;
+}
+
+export interface MetaCacheStats {
+  site: string;
+  file: string | null;
+  ttl_ms: number;
+  entries: number;
+  hits: number;
+  misses: number;
+  revalidated: number;
+  refreshed: number;
+  doctypes: { doctype: string; modified?: string; checked_seconds_ago: number | null }[];
+}
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+
+export class MetaCache {
+  private entries: Map<string, MetaCacheEntry> = new Map();
+  private filePath: string | null;
+  private counters = { hits: 0, misses: 0, revalidated: 0, refreshed: 0 };
+  private warmed: boolean = false;
+
+  constructor(private site: string, private ttl: number, dir?: string) {
+    this.filePath = dir ? path.resolve(dir, `${site.replace(/^https?:\/\//, "").replace(/[^a-zA-Z0-9.-]+/g, "_")}.json`) : null;
+    this.load();
+  }
+
+  // A cached entry that is still within its TTL (counts as a hit)
+  getFresh(doctype: string): MetaCacheEntry | undefined {
+    const entry = this.entries.get(doctype);
+    if (entry && Date.now() - entry.checkedAt < this.ttl) {
+      this.counters.hits++;
+      return entry;
+    }
+    return undefined;
+  }
+
+  // A cached entry regardless of age, for revalidation
+  getStale(doctype: string): MetaCacheEntry | undefined {
+    return this.entries.get(doctype);
+  }
+
+  // The entry is still current: restart its TTL
+  markRevalidated(doctype: string): void {
+    const entry = this.entries.get(doctype);
+    if (entry) {
+      entry.checkedAt = Date.now();
+      this.counters.revalidated++;
+    }
+  }
+
+  set(doctype: string, data: any): void {
+    if (this.entries.has(doctype)) {
+      this.counters.refreshed++;
+    } else {
+      this.counters.misses++;
+    }
+    this.entries.set(doctype, { data, modified: data?.modified, checkedAt: Date.now() });
+    this.save();
+  }
+
+  clear(doctype?: string): number {
+    let removed: number;
+    if (doctype) {
+      removed = this.entries.delete(doctype) ? 1 : 0;
+    } else {
+      removed = this.entries.size;
+      this.entries.clear();
+    }
+    this.save();
+    return removed;
+  }
+
+  // True the first time it is asked, so each site is warmed once
+  claimWarming(): boolean {
+    if (this.warmed) {
+      return false;
+    }
+    this.warmed = true;
+    return true;
+  }
+
+  stats(): MetaCacheStats {
+    const now = Date.now();
+    return {
+      site: this.site,
+      file: this.filePath,
+      ttl_ms: this.ttl,
+      entries: this.entries.size,
+      ...this.counters,
+      doctypes: Array.from(this.entries.entries()).map(([doctype, entry]) => ({
+        doctype,
+        modified: entry.modified,
+        // null for entries loaded from disk and not yet revalidated
+        checked_seconds_ago: entry.checkedAt ? Math.round((now - entry.checkedAt) / 1000) : null
+      }))
+    };
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, "utf-8"));
+      for (const [doctype, entry] of Object.entries<any>(parsed?.doctypes || {})) {
+        if (entry && entry.data) {
+          // Entries from disk are revalidated before first use
+          this.entries.set(doctype, { data: entry.data, modified: entry.modified, checkedAt: 0 });
+        }
+      }
+    } catch (error: any) {
+      console.warn(`Ignoring unreadable metadata cache ${this.filePath}: ${error?.message || error}`);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      if (this.entries.size === 0) {
+        rmSync(this.filePath, { force: true });
+        return;
+      }
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const doctypes: Record<string, { data: any; modified?: string }> = {};
+      for (const [doctype, entry] of this.entries) {
+        doctypes[doctype] = { data: entry.data, modified: entry.modified };
+      }
+      // Write then rename, so a crash never leaves a half-written file
+      const tmpPath = `${this.filePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify({ site: this.site, doctypes }));
+      renameSync(tmpPath, this.filePath);
+    } catch (error: any) {
+      console.warn(`Failed to write metadata cache ${this.filePath}: ${error?.message || error}`);
+    }
+  }
+}
+
+const caches = new Map<string, MetaCache>();
+
+// The shared cache for a site
+export function getMetaCache(site: string): MetaCache {
+  let cache = caches.get(site);
+  if (!cache) {
+    cache = new MetaCache(
+      site,
+      Number(process.env.ERPNEXT_META_CACHE_TTL) || DEFAULT_TTL,
+      process.env.ERPNEXT_META_CACHE_DIR || undefined
+    );
+    caches.set(site, cache);
+  }
+  return cache;
+}
+
+// Doctypes to load into the cache ahead of time (ERPNEXT_META_CACHE_WARM)
+export function getWarmDocTypes(): string[] {
+  return String(process.env.ERPNEXT_META_CACHE_WARM || "")
+    .split(",")
+    .map((doctype) => doctype.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,102 @@
+/**
+ * Request scheduler, shared by every client of the same ERPNext site.
+ *
+ * Caps the number of requests in flight (ERPNEXT_MAX_CONCURRENCY, default 4)
+ * and spaces out request starts to stay within a requests-per-second budget
+ * (ERPNEXT_MAX_REQUESTS_PER_SECOND, default 10; 0 disables the budget).
+ * When the site answers with Retry-After, every queued request waits it out.
+ */
+
+const DEFAULT_MAX_IN_FLIGHT = 4;
+const DEFAULT_REQUESTS_PER_SECOND = 10;
+// Longest Retry-After that is honoured; anything longer is cut to this
+const MAX_PAUSE_MS = 60 * 1000;
+
+export class RequestScheduler {
+  private inFlight: number = 0;
+  private queue: (() => void)[] = [];
+  private nextStartAt: number = 0;
+  private pausedUntil: number = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private maxInFlight: number, private requestsPerSecond: number) {}
+
+  // Wait for a slot; call the returned function once the request has finished
+  acquire(): Promise<() => void> {
+    return new Promise((resolve) => {
+      this.queue.push(() => {
+        let released = false;
+        resolve(() => {
+          if (!released) {
+            released = true;
+            this.inFlight--;
+            this.pump();
+          }
+        });
+      });
+      this.pump();
+    });
+  }
+
+  // Hold back all new requests for the given time (from a Retry-After header); returns the pause applied
+  pause(ms: number): number {
+    const applied = Math.min(Math.max(ms, 0), MAX_PAUSE_MS);
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + applied);
+    return applied;
+  }
+
+  private pump(): void {
+    while (this.queue.length && this.inFlight < this.maxInFlight) {
+      const now = Date.now();
+      const startAt = Math.max(this.nextStartAt, this.pausedUntil);
+      if (startAt > now) {
+        if (!this.timer) {
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.pump();
+          }, startAt - now);
+        }
+        return;
+      }
+
+      this.inFlight++;
+      if (this.requestsPerSecond > 0) {
+        this.nextStartAt = now + 1000 / this.requestsPerSecond;
+      }
+      this.queue.shift()!();
+    }
+  }
+}
+
+// Delay in milliseconds asked for by a Retry-After header (seconds or an HTTP date)
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Number(text) * 1000;
+  }
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const schedulers = new Map<string, RequestScheduler>();
+
+// The shared scheduler for a site
+export function getRequestScheduler(site: string): RequestScheduler {
+  let scheduler = schedulers.get(site);
+  if (!scheduler) {
+    scheduler = new RequestScheduler(
+      Math.max(1, readLimit(process.env.ERPNEXT_MAX_CONCURRENCY, DEFAULT_MAX_IN_FLIGHT)),
+      readLimit(process.env.ERPNEXT_MAX_REQUESTS_PER_SECOND, DEFAULT_REQUESTS_PER_SECOND)
+    );
+    schedulers.set(site, scheduler);
+  }
+  return scheduler;
+}
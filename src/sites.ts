@@ -0,0 +1,96 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * Named ERPNext site profiles.
+ *
+ * Profiles live in a local JSON file (ERPNEXT_SITES_FILE, default
+ * `erpnext-sites.json` in the working directory):
+ *
+ *   {
+ *     "default_site": "production",
+ *     "sites": {
+ *       "production": { "url": "https://erp.example.com", "api_key": "...", "api_secret": "..." },
+ *       "staging": { "url": "https://staging.example.com", "api_key": "...", "api_secret": "...", "max_retries": 1 },
+ *       "customer-a": { "url": "https://a.example.com", "username": "...", "password": "..." }
+ *     }
+ *   }
+ *
+ * Instead of an API key pair a profile may use `username`/`password` session
+ * login or OAuth2 (`oauth_client_id`, `oauth_refresh_token`, ...).
+ *
+ * The file is read once at startup; restart the server to pick up changes.
+ */
+
+export interface SiteProfile {
+  name: string;
+  url: string;
+  api_key?: string;
+  api_secret?: string;
+  username?: string;
+  password?: string;
+  oauth_client_id?: string;
+  oauth_client_secret?: string;
+  oauth_access_token?: string;
+  oauth_refresh_token?: string;
+  oauth_token_file?: string;
+  description?: string;
+  max_retries?: number;
+  retry_delay?: number;  // milliseconds
+  timeout?: number;      // milliseconds
+}
+
+export interface SiteConfig {
+  defaultSite?: string;
+  sites: Map<string, SiteProfile>;
+}
+
+let config: SiteConfig | null = null;
+
+export function getSitesFilePath(): string {
+  return path.resolve(process.env.ERPNEXT_SITES_FILE || "erpnext-sites.json");
+}
+
+function parseSiteConfig(filePath: string): SiteConfig {
+  const parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+  const sites = new Map<string, SiteProfile>();
+
+  for (const [name, profile] of Object.entries<any>(parsed?.sites || {})) {
+    if (!profile || typeof profile.url !== "string" || !profile.url.trim()) {
+      throw new Error(`Site '${name}' in ${filePath} is missing a url`);
+    }
+    if (Boolean(profile.api_key) !== Boolean(profile.api_secret)) {
+      throw new Error(`Site '${name}' in ${filePath} must set both api_key and api_secret`);
+    }
+    sites.set(name, { ...profile, name });
+  }
+
+  const defaultSite = parsed?.default_site;
+  if (defaultSite !== undefined && !sites.has(defaultSite)) {
+    throw new Error(`default_site '${defaultSite}' is not defined in ${filePath}`);
+  }
+
+  return { defaultSite, sites };
+}
+
+// Load (once) the site profiles; an absent file means no profiles
+export function loadSiteConfig(): SiteConfig {
+  if (config) {
+    return config;
+  }
+
+  const filePath = getSitesFilePath();
+  config = existsSync(filePath)
+    ? parseSiteConfig(filePath)
+    : { sites: new Map() };
+
+  return config;
+}
+
+export function getSiteProfile(name: string): SiteProfile | undefined {
+  return loadSiteConfig().sites.get(name);
+}
+
+export function listSiteProfiles(): SiteProfile[] {
+  return Array.from(loadSiteConfig().sites.values());
+}
@@ -0,0 +1,259 @@
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId
+} from "@modelcontextprotocol/sdk/types.js";
+
+const MAXIMUM_MESSAGE_SIZE = 4 * 1024 * 1024; // 4mb, same as the SSE transport
+
+export const SESSION_HEADER = "mcp-session-id";
+
+// An HTTP response that is waiting for the replies to one POSTed batch
+interface PendingResponse {
+  res: ServerResponse;
+  stream: boolean;
+  pending: Set<RequestId>;
+  replies: JSONRPCMessage[];
+}
+
+function writeJsonError(res: ServerResponse, status: number, error: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error }));
+}
+
+function isRequest(message: JSONRPCMessage): boolean {
+  return "method" in message && "id" in message;
+}
+
+export function isInitializeRequest(message: JSONRPCMessage): boolean {
+  return isRequest(message) && (message as any).method === "initialize";
+}
+
+function isResponse(message: JSONRPCMessage): boolean {
+  return !("method" in message) && ("result" in message || "error" in message);
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAXIMUM_MESSAGE_SIZE) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Parse a POST body into JSON-RPC messages.
+ * Accepts either a single message or a batch (array) of messages.
+ */
+export async function parseMessages(req: IncomingMessage): Promise<JSONRPCMessage[]> {
+  const contentType = String(req.headers["content-type"] ?? "");
+  if (!contentType.toLowerCase().startsWith("application/json")) {
+    throw new Error(`Unsupported content-type: ${contentType || "none"}`);
+  }
+
+  const raw = JSON.parse(await readBody(req));
+  const batch = Array.isArray(raw) ? raw : [raw];
+  if (batch.length === 0) {
+    throw new Error("Empty JSON-RPC batch");
+  }
+
+  return batch.map((message) => JSONRPCMessageSchema.parse(message));
+}
+
+/**
+ * Server transport for the streamable HTTP protocol: a single endpoint that
+ * takes JSON-RPC over POST (answered as JSON or as an SSE stream), offers a
+ * GET SSE stream for server-initiated messages, and ends the session on DELETE.
+ * The session is carried in the `Mcp-Session-Id` header.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  private _sessionId: string = randomUUID();
+  private _started: boolean = false;
+  private _closed: boolean = false;
+  private _standaloneStream?: ServerResponse;
+  private _responses: Map<RequestId, PendingResponse> = new Map();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  get sessionId(): string {
+    return this._sessionId;
+  }
+
+  // Whether the GET stream, or a POST still waiting for replies, is open
+  get isStreaming(): boolean {
+    return this._standaloneStream !== undefined || this._responses.size > 0;
+  }
+
+  async start(): Promise<void> {
+    if (this._started) {
+      throw new Error("StreamableHttpServerTransport already started!");
+    }
+    this._started = true;
+  }
+
+  /**
+   * Handle POSTed JSON-RPC messages that have already been parsed.
+   * Requests are answered on this HTTP response; notifications and
+   * responses alone are acknowledged with 202.
+   */
+  async handlePostMessages(
+    req: IncomingMessage,
+    res: ServerResponse,
+    messages: JSONRPCMessage[]
+  ): Promise<void> {
+    const accept = String(req.headers.accept ?? "");
+    const requestIds = messages
+      .filter(isRequest)
+      .map((message) => (message as any).id as RequestId);
+
+    if (requestIds.length === 0) {
+      res.writeHead(202).end();
+      this.dispatch(messages);
+      return;
+    }
+
+    const stream = accept.includes("text/event-stream");
+    const pending: PendingResponse = {
+      res,
+      stream,
+      pending: new Set(requestIds),
+      replies: []
+    };
+
+    for (const id of requestIds) {
+      this._responses.set(id, pending);
+    }
+
+    if (stream) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Mcp-Session-Id": this._sessionId
+      });
+    }
+
+    res.on("close", () => {
+      for (const id of pending.pending) {
+        this._responses.delete(id);
+      }
+    });
+
+    this.dispatch(messages);
+  }
+
+  /**
+   * Open the standalone SSE stream used for server-initiated messages.
+   * Only one such stream may be open per session.
+   */
+  async handleGetStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const accept = String(req.headers.accept ?? "");
+    if (!accept.includes("text/event-stream")) {
+      writeJsonError(res, 406, "Client must accept text/event-stream");
+      return;
+    }
+
+    if (this._standaloneStream) {
+      writeJsonError(res, 409, "Session already has an open SSE stream");
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Mcp-Session-Id": this._sessionId
+    });
+    // Flush headers so the client sees the stream open straight away
+    res.write(": connected\n\n");
+
+    this._standaloneStream = res;
+    res.on("close", () => {
+      if (this._standaloneStream === res) {
+        this._standaloneStream = undefined;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this._closed) {
+      throw new Error("Not connected");
+    }
+
+    if (isResponse(message)) {
+      const id = (message as any).id as RequestId;
+      const pending = this._responses.get(id);
+      if (!pending) {
+        // The client went away before the reply was ready
+        return;
+      }
+
+      this._responses.delete(id);
+      pending.pending.delete(id);
+
+      if (pending.stream) {
+        pending.res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+        if (pending.pending.size === 0) {
+          pending.res.end();
+        }
+        return;
+      }
+
+      pending.replies.push(message);
+      if (pending.pending.size === 0) {
+        const body = pending.replies.length === 1 ? pending.replies[0] : pending.replies;
+        pending.res.writeHead(200, {
+          "Content-Type": "application/json",
+          "Mcp-Session-Id": this._sessionId
+        });
+        pending.res.end(JSON.stringify(body));
+      }
+      return;
+    }
+
+    // Server-initiated requests and notifications go out on the GET stream;
+    // without one open there is nowhere to deliver them.
+    if (this._standaloneStream) {
+      this._standaloneStream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+    this._closed = true;
+
+    this._standaloneStream?.end();
+    this._standaloneStream = undefined;
+
+    for (const pending of new Set(this._responses.values())) {
+      if (pending.res.headersSent) {
+        pending.res.end();
+      } else {
+        writeJsonError(pending.res, 410, "Session closed");
+      }
+    }
+    this._responses.clear();
+
+    this.onclose?.();
+  }
+
+  private dispatch(messages: JSONRPCMessage[]) {
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+}